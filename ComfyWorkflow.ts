@@ -4,10 +4,98 @@ import {
   Edge,
   InputValue,
   AddNodeOptions,
+  ImportWorkflowOptions,
+  InsertOnEdgeOptions,
+  MergeConflict,
+  NodeConnection,
+  ReplaceNodeOptions,
   StructuralDiff,
   isComfyWorkflowJson,
+  isJsonValue,
   isNodeConnection,
 } from './types';
+import { ConnectionTypeError, NodeSchemaRegistry, isTypeCompatible } from './schema';
+import { ValidationError, WorkflowValidationError, validateWorkflow } from './validators';
+import { WorkflowErrorReport, groupErrorsByNode } from './serverErrors';
+import type { ComfyComponent, ComponentInstance } from './component';
+import { JsonPatchError, JsonPatchOperation, applyJsonPatch, createWorkflowPatch } from './jsonPatch';
+import { UiWorkflowJson, apiToUiJson, uiToApiJson } from './uiFormat';
+import { isInputEquivalent, matchWorkflowNodes } from './matching';
+import { mergeWorkflowJson } from './merge';
+import { GraphExportOptions, toDot, toMermaid } from './visualize';
+import { canonicalizeWorkflowJson, computeContentHash } from './canonical';
+import { EdgeQuery, NodeQuery, NodeSelection, selectEdges, selectNodes } from './query';
+import { SweepAxes, SweepOptions, WorkflowSweep } from './sweep';
+import { EmbedInImageOptions, embedInImage, readWorkflowFromImage } from './imageMetadata';
+import { BypassRecord, bypassNodeJson, muteNodeJson, restoreNodeJson } from './bypass';
+import {
+  AssetCheckResult,
+  AssetMapping,
+  AssetOptions,
+  AssetReference,
+  CheckAssetsOptions,
+  checkAssets,
+  getAssetReferences,
+  remapAssetsJson,
+} from './assets';
+import {
+  OutputNodeOptions,
+  compareNodeIds,
+  findCycles,
+  findDeadNodes,
+  findOutputNodes,
+  getAncestors,
+  getDescendants,
+  hasNode,
+  hasPath,
+  topologicalSort,
+} from './graph';
+
+/** ComfyWorkflowのオプション */
+export interface ComfyWorkflowOptions {
+  /** 指定するとaddEdgeで接続の型をチェックする */
+  schema?: NodeSchemaRegistry;
+  /** undoできる操作の最大数（デフォルト: 100、0で履歴を無効化） */
+  historyLimit?: number;
+}
+
+/** トランザクションのオプション */
+export interface TransactionOptions {
+  /** 履歴に表示する名前（デフォルト: 'transaction'） */
+  label?: string;
+  /** falseにすると終了時のvalidateWorkflowを省略する */
+  validate?: boolean;
+}
+
+/** ComfyWorkflow.mergeの結果 */
+export interface MergeResult {
+  workflow: ComfyWorkflow;
+  /** 競合（空配列なら競合なし） */
+  conflicts: MergeConflict[];
+}
+
+/** 操作で変更されたノード（存在しない場合はundefined） */
+interface NodeChange {
+  nodeId: string;
+  before?: ComfyNode;
+  after?: ComfyNode;
+}
+
+/** 履歴の1エントリ（変更されたノードの操作前・操作後の状態） */
+interface HistoryEntry {
+  label: string;
+  changes: NodeChange[];
+  /** ノードの削除・全体の置き換えがあった場合の、操作前・操作後のノードIDの順序 */
+  orderBefore?: string[];
+  orderAfter?: string[];
+}
+
+/** 実行中の操作で変更したノードの操作前の状態 */
+interface MutationJournal {
+  before: Map<string, ComfyNode | undefined>;
+  /** ノードの削除・全体の置き換えの前のノードIDの順序 */
+  order?: string[];
+}
 
 /**
  * ComfyUIワークフローを操作するクラス
@@ -15,20 +103,30 @@ import {
  */
 export class ComfyWorkflow {
   private nodes: ComfyWorkflowJson = {};
+  private schema?: NodeSchemaRegistry;
+  private historyLimit: number;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  /** 実行中の操作（外側から順） */
+  private journals: MutationJournal[] = [];
 
   /**
    * 空のワークフローを作成
+   * @param options オプション（スキーマなど）
    */
-  constructor() {
+  constructor(options: ComfyWorkflowOptions = {}) {
     this.nodes = {};
+    this.schema = options.schema;
+    this.historyLimit = options.historyLimit ?? 100;
   }
 
   /**
    * JSONからワークフローを読み込む
    * @param json ワークフローJSON（オブジェクトまたは文字列）
+   * @param options オプション（スキーマなど）
    */
-  static fromJson(json: ComfyWorkflowJson | string): ComfyWorkflow {
-    const workflow = new ComfyWorkflow();
+  static fromJson(json: ComfyWorkflowJson | string, options: ComfyWorkflowOptions = {}): ComfyWorkflow {
+    const workflow = new ComfyWorkflow(options);
 
     let parsed: unknown;
     if (typeof json === 'string') {
@@ -50,6 +148,60 @@ export class ComfyWorkflow {
     return workflow;
   }
 
+  /**
+   * UI形式（ComfyUIエディタの保存形式）のJSONからワークフローを読み込む
+   * widgets_valuesを入力名に対応付けるため、通常はスキーマの指定が必要
+   * @param json UI形式のワークフローJSON（オブジェクトまたは文字列）
+   * @param options オプション（スキーマなど）
+   */
+  static fromUiJson(json: UiWorkflowJson | string, options: ComfyWorkflowOptions = {}): ComfyWorkflow {
+    let parsed: UiWorkflowJson;
+    if (typeof json === 'string') {
+      try {
+        parsed = JSON.parse(json);
+      } catch {
+        throw new Error('Invalid JSON string');
+      }
+    } else {
+      parsed = json;
+    }
+
+    return ComfyWorkflow.fromJson(uiToApiJson(parsed, options.schema), options);
+  }
+
+  /**
+   * ComfyUIが画像（PNG・WebP）に埋め込んだワークフローを読み込む
+   * API形式（prompt）を優先し、なければUI形式（workflow）を変換する
+   * @param image PNGまたはWebPのバイト列（Node.jsのBufferも可）
+   * @param options オプション（UI形式の変換にはスキーマを指定する）
+   * @throws 画像にワークフローが含まれていない場合
+   */
+  static fromImage(image: Uint8Array | ArrayBuffer, options: ComfyWorkflowOptions = {}): ComfyWorkflow {
+    const { prompt, workflow } = readWorkflowFromImage(image);
+    if (prompt) {
+      return ComfyWorkflow.fromJson(prompt, options);
+    }
+    if (workflow) {
+      return ComfyWorkflow.fromUiJson(workflow, options);
+    }
+    throw new Error('Image does not contain a ComfyUI workflow');
+  }
+
+  /**
+   * 共通の祖先から並行して編集された2つのワークフローを3方向マージ
+   * 片側だけの変更はそのまま取り込み、両側で異なる変更はoursを優先して競合として報告する
+   * 両側で同じIDのノードが追加された場合はtheirs側のノードに新しいIDを割り当てる
+   * 結果は存在しないノードへの接続や循環を含まないため、validateConnectionsを通過する
+   * @param base 共通の祖先
+   * @param ours 自分側の変更（スキーマなどのオプションも引き継ぐ）
+   * @param theirs 相手側の変更
+   */
+  static merge(base: ComfyWorkflow, ours: ComfyWorkflow, theirs: ComfyWorkflow): MergeResult {
+    const { json, conflicts } = mergeWorkflowJson(base.nodes, ours.nodes, theirs.nodes);
+    const workflow = ComfyWorkflow.fromJson(json, { schema: ours.schema, historyLimit: ours.historyLimit });
+    return { workflow, conflicts };
+  }
+
   /**
    * ワークフローをJSONとしてエクスポート
    */
@@ -65,6 +217,75 @@ export class ComfyWorkflow {
     return JSON.stringify(this.nodes, null, indent);
   }
 
+  /**
+   * ワークフローをUI形式（ComfyUIエディタで読み込める形式）でエクスポート
+   * ノードは接続の深さごとの列に自動配置される
+   */
+  toUiJson(): UiWorkflowJson {
+    return apiToUiJson(this.nodes, this.schema);
+  }
+
+  /**
+   * Mermaidのフローチャートとしてエクスポート
+   * ノードは_meta.title（なければclass_type）、エッジは出力ポートと入力名でラベル付けする
+   * @param options オプション（クラスタ化・強調表示など）
+   */
+  toMermaid(options: GraphExportOptions = {}): string {
+    return toMermaid(this.nodes, { schema: this.schema, ...options });
+  }
+
+  /**
+   * Graphviz DOTとしてエクスポート
+   * @param options オプション（クラスタ化・強調表示など）
+   */
+  toDot(options: GraphExportOptions = {}): string {
+    return toDot(this.nodes, { schema: this.schema, ...options });
+  }
+
+  /**
+   * ワークフローをComfyUIと同じ形式で画像（PNG・WebP）に埋め込んだバイト列を作成
+   * @param image PNGまたはWebPのバイト列（変更しない）
+   * @param options ui: UI形式を書き込むか（デフォルト: スキーマがある場合のみ）
+   */
+  embedInImage(image: Uint8Array | ArrayBuffer, options: EmbedInImageOptions = {}): Uint8Array {
+    return embedInImage(image, this, options);
+  }
+
+  /**
+   * ノードスキーマを取得
+   */
+  getSchema(): NodeSchemaRegistry | undefined {
+    return this.schema;
+  }
+
+  /**
+   * ノードスキーマを設定（undefinedで解除）
+   * @param schema ノードスキーマ
+   */
+  setSchema(schema: NodeSchemaRegistry | undefined): void {
+    this.schema = schema;
+  }
+
+  /**
+   * エラーをノードごとにまとめ、各ノードのclass_typeとタイトルを付ける
+   * ローカルのバリデーションとサーバーのエラー（parsePromptErrorsなど）の両方を扱える
+   *
+   * @example
+   * ```typescript
+   * try {
+   *   await client.run(workflow);
+   * } catch (e) {
+   *   if (e instanceof ComfyPromptError) {
+   *     const report = workflow.groupErrorsByNode(e.errors);
+   *   }
+   * }
+   * ```
+   * @param errors エラーの一覧
+   */
+  groupErrorsByNode(errors: ValidationError[]): WorkflowErrorReport {
+    return groupErrorsByNode(this.nodes, errors);
+  }
+
   // ============================================
   // ノード操作
   // ============================================
@@ -81,23 +302,138 @@ export class ComfyWorkflow {
     inputs: { [key: string]: InputValue } = {},
     options: AddNodeOptions = {}
   ): string {
-    const nodeId = options.id ?? this.generateNodeId();
+    return this.mutate('addNode', () => {
+      const nodeId = options.id ?? this.generateNodeId();
 
-    if (this.nodes[nodeId]) {
-      throw new Error(`Node with ID "${nodeId}" already exists`);
-    }
+      if (this.nodes[nodeId]) {
+        throw new Error(`Node with ID "${nodeId}" already exists`);
+      }
 
-    const node: ComfyNode = {
-      inputs: { ...inputs },
-      class_type: classType,
-    };
+      const node: ComfyNode = {
+        inputs: this.copyInputs(inputs),
+        class_type: classType,
+      };
+
+      if (options.meta) {
+        node._meta = { ...options.meta };
+      }
 
-    if (options.meta) {
-      node._meta = { ...options.meta };
+      this.touch(nodeId);
+      this.nodes[nodeId] = node;
+      return nodeId;
+    });
+  }
+
+  /**
+   * 別のワークフローの全ノードを取り込む
+   * ノードIDは新しく割り当てられ、取り込んだノード間の接続も書き換えられる
+   * @param other 取り込むワークフロー
+   * @param options IDの接頭辞、ホストとの接続
+   * @returns 取り込み前のID → 新しいIDの対応
+   * @throws 取り込むワークフローに存在しないノードへの接続がある場合（connectで接続し直す入力を除く）
+   */
+  importWorkflow(other: ComfyWorkflow, options: ImportWorkflowOptions = {}): { [oldId: string]: string } {
+    const { idPrefix = '', connect = [] } = options;
+    const otherNodes = other.getNodes();
+
+    for (const connection of connect) {
+      if (!otherNodes[connection.targetNodeId]) {
+        throw new Error(`Target node "${connection.targetNodeId}" does not exist in the imported workflow`);
+      }
+    }
+
+    // 取り込み元に存在しないノードへの接続は、取り込み後にホストの無関係なノードを指してしまうため拒否する
+    // （connectで接続し直す入力は除く）
+    for (const [nodeId, node] of Object.entries(otherNodes)) {
+      for (const [inputName, value] of Object.entries(node.inputs)) {
+        const reconnected = connect.some(c => c.targetNodeId === nodeId && c.targetInputName === inputName);
+        if (isNodeConnection(value) && !otherNodes[value[0]] && !reconnected) {
+          throw new Error(
+            `Node "${nodeId}" input "${inputName}" of the imported workflow references non-existent node "${value[0]}"`
+          );
+        }
+      }
     }
 
-    this.nodes[nodeId] = node;
-    return nodeId;
+    return this.mutate('importWorkflow', () => {
+      // IDを割り当て（取り込み元のID順）
+      const idMap: { [oldId: string]: string } = {};
+      for (const oldId of Object.keys(otherNodes).sort(compareNodeIds)) {
+        const newId = this.generateNodeId(idPrefix);
+        idMap[oldId] = newId;
+        this.touch(newId);
+        this.nodes[newId] = otherNodes[oldId];
+      }
+
+      // 取り込んだノード間の接続を書き換え
+      for (const newId of Object.values(idMap)) {
+        const inputs = this.nodes[newId].inputs;
+        for (const [inputName, value] of Object.entries(inputs)) {
+          if (isNodeConnection(value) && idMap[value[0]] !== undefined) {
+            inputs[inputName] = [idMap[value[0]], value[1]];
+          } else if (isNodeConnection(value)) {
+            // connectで接続し直す入力
+            delete inputs[inputName];
+          }
+        }
+      }
+
+      for (const connection of connect) {
+        this.addEdge(
+          connection.sourceNodeId,
+          this.resolveOutputPort(connection.sourceNodeId, connection.sourcePort),
+          idMap[connection.targetNodeId],
+          connection.targetInputName
+        );
+      }
+
+      return idMap;
+    });
+  }
+
+  /**
+   * コンポーネントをインスタンス化して追加
+   * @param component 追加するコンポーネント
+   * @param params パラメータ名 → 値
+   * @param connections 入力ポート名 → ホスト上の接続元
+   * @param options IDの接頭辞
+   * @returns 追加したノードのIDと出力ポートの接続元
+   */
+  addComponent(
+    component: ComfyComponent,
+    params: { [name: string]: InputValue } = {},
+    connections: { [inputName: string]: NodeConnection } = {},
+    options: { idPrefix?: string } = {}
+  ): ComponentInstance {
+    return this.mutate('addComponent', () => {
+      for (const name of Object.keys(connections)) {
+        if (!component.inputs[name]) {
+          throw new Error(`Component "${component.name}" has no input "${name}"`);
+        }
+      }
+      for (const [name, port] of Object.entries(component.inputs)) {
+        if (!port.optional && !connections[name]) {
+          throw new Error(`Component "${component.name}" input "${name}" is not connected`);
+        }
+      }
+
+      const connect = Object.entries(connections).flatMap(([name, [sourceNodeId, sourcePort]]) =>
+        component.inputs[name].targets.map(target => ({
+          sourceNodeId,
+          sourcePort,
+          targetNodeId: target.nodeId,
+          targetInputName: target.inputName,
+        }))
+      );
+
+      const nodeIds = this.importWorkflow(component.instantiate(params), { idPrefix: options.idPrefix, connect });
+
+      const outputs: { [name: string]: NodeConnection } = {};
+      for (const [name, output] of Object.entries(component.outputs)) {
+        outputs[name] = [nodeIds[output.nodeId], output.port];
+      }
+      return { nodeIds, outputs };
+    });
   }
 
   /**
@@ -105,20 +441,142 @@ export class ComfyWorkflow {
    * @param nodeId 削除するノードのID
    */
   removeNode(nodeId: string): void {
-    if (!this.nodes[nodeId]) {
-      return;
-    }
+    this.mutate('removeNode', () => {
+      if (!this.nodes[nodeId]) {
+        return;
+      }
+
+      // 関連するエッジを削除
+      for (const [id, node] of Object.entries(this.nodes)) {
+        for (const [inputName, value] of Object.entries(node.inputs)) {
+          if (isNodeConnection(value) && value[0] === nodeId) {
+            this.touch(id);
+            delete node.inputs[inputName];
+          }
+        }
+      }
+
+      this.deleteNode(nodeId);
+    });
+  }
+
+  /**
+   * ノードをバイパス（ComfyUIエディタのバイパスと同じ）
+   * ノードを削除し、下流の入力を同じ型の入力の接続元に張り替える
+   * 出力と入力の対応はスキーマの型で決める（スキーマがなければ入力名と位置で推測する）
+   *
+   * @example
+   * ```typescript
+   * const record = workflow.bypassNode(loraId); // KSampler.model → チェックポイントのMODEL
+   * workflow.restoreNode(record);
+   * ```
+   * @param nodeId ノードID
+   * @returns restoreNodeで元に戻すための記録
+   * @throws ノードが存在しない場合
+   */
+  bypassNode(nodeId: string): BypassRecord {
+    return this.mutate('bypassNode', () => {
+      const { json, record } = bypassNodeJson(this.nodes, nodeId, this.schema);
+      this.replaceNodes(json);
+      return record;
+    });
+  }
+
+  /**
+   * ノードをミュート（ノードとその下流のノードをすべて削除）
+   * @param nodeId ノードID
+   * @returns restoreNodeで元に戻すための記録
+   * @throws ノードが存在しない場合
+   */
+  muteNode(nodeId: string): BypassRecord {
+    return this.mutate('muteNode', () => {
+      const { json, record } = muteNodeJson(this.nodes, nodeId);
+      this.replaceNodes(json);
+      return record;
+    });
+  }
+
+  /**
+   * バイパス・ミュートしたノードを元に戻す
+   * 記録の後に変更された下流の入力はそのままにする
+   * @param record bypassNode・muteNodeの戻り値
+   * @throws ノードIDが既に使われている場合、戻すノードの接続元が存在しない場合
+   */
+  restoreNode(record: BypassRecord): void {
+    this.mutate('restoreNode', () => {
+      this.replaceNodes(restoreNodeJson(this.nodes, record));
+    });
+  }
+
+  /**
+   * ノードのclass_typeを置き換える（ノードIDと入出力の接続は維持する）
+   * 接続は入力名・出力ポートの対応に従って付け替え、スキーマがあれば型をチェックする
+   *
+   * @example
+   * ```typescript
+   * workflow.replaceNode(samplerId, 'KSamplerAdvanced', {
+   *   inputMap: { seed: 'noise_seed', denoise: null },
+   *   inputs: { add_noise: 'enable', start_at_step: 0, end_at_step: 10000, return_with_leftover_noise: 'disable' },
+   * });
+   * ```
+   * @param nodeId ノードID
+   * @param classType 新しいクラスタイプ
+   * @param options 入力名・出力ポートの対応、追加する入力値
+   * @throws ノードが存在しない場合、複数の入力が同じ入力名に対応する場合、付け替えた接続の型が合わない場合
+   */
+  replaceNode(nodeId: string, classType: string, options: ReplaceNodeOptions = {}): void {
+    const { inputMap = {}, outputMap = {}, inputs = {} } = options;
+    this.mutate('replaceNode', () => {
+      const node = this.nodes[nodeId];
+      if (!node) {
+        throw new Error(`Node "${nodeId}" does not exist`);
+      }
+      const mappedFrom = new Map<string, string>();
+      for (const inputName of Object.keys(node.inputs)) {
+        const newName = inputName in inputMap ? inputMap[inputName] : inputName;
+        if (newName === null) continue;
+        const other = mappedFrom.get(newName);
+        if (other !== undefined) {
+          throw new Error(`Inputs "${other}" and "${inputName}" of node "${nodeId}" both map to input "${newName}"`);
+        }
+        mappedFrom.set(newName, inputName);
+      }
+      const outgoing = this.getEdgesFrom(nodeId);
+
+      const replaced: ComfyNode = { inputs: {}, class_type: classType };
+      const meta = options.meta ?? node._meta;
+      if (meta) {
+        replaced._meta = { ...meta };
+      }
+      this.touch(nodeId);
+      this.nodes[nodeId] = replaced;
 
-    // 関連するエッジを削除
-    for (const [id, node] of Object.entries(this.nodes)) {
       for (const [inputName, value] of Object.entries(node.inputs)) {
-        if (isNodeConnection(value) && value[0] === nodeId) {
-          delete this.nodes[id].inputs[inputName];
+        const newName = inputName in inputMap ? inputMap[inputName] : inputName;
+        if (newName === null) continue;
+        if (isNodeConnection(value)) {
+          this.addEdge(value[0], value[1], nodeId, newName);
+        } else {
+          replaced.inputs[newName] = value;
+        }
+      }
+      for (const [inputName, value] of Object.entries(inputs)) {
+        if (isNodeConnection(value)) {
+          this.addEdge(value[0], value[1], nodeId, inputName);
+        } else {
+          replaced.inputs[inputName] = this.copyInputs({ [inputName]: value })[inputName];
         }
       }
-    }
 
-    delete this.nodes[nodeId];
+      for (const edge of outgoing) {
+        const newPort = edge.sourcePort in outputMap ? outputMap[edge.sourcePort] : edge.sourcePort;
+        if (newPort === null) {
+          this.removeEdge(edge.targetNodeId, edge.targetInputName);
+        } else {
+          this.addEdge(nodeId, this.resolveOutputPort(nodeId, newPort), edge.targetNodeId, edge.targetInputName);
+        }
+      }
+    });
   }
 
   /**
@@ -159,16 +617,44 @@ export class ComfyWorkflow {
     return results;
   }
 
+  /**
+   * 条件またはセレクタに一致するノードを検索
+   * 結果に対してsetInputなどの一括操作を行える
+   *
+   * @example
+   * ```typescript
+   * workflow.query({ classType: /Loader$/ });
+   * workflow.query({ title: 'Positive Prompt' }).setInput('text', 'a cat');
+   * workflow.query('KSampler[steps>20]').setInput('steps', 20);
+   * workflow.query('KSampler <- CheckpointLoaderSimple'); // KSamplerの上流にあるCheckpointLoaderSimple
+   * ```
+   * @param query 検索条件、またはセレクタ文字列
+   */
+  query(query: NodeQuery | string): NodeSelection {
+    return new NodeSelection(this, selectNodes(this.nodes, query));
+  }
+
+  /**
+   * 条件に一致するエッジを検索
+   * @param query 検索条件（source/targetにはセレクタ文字列も指定できる）
+   */
+  queryEdges(query: EdgeQuery = {}): Edge[] {
+    return selectEdges(this.nodes, query);
+  }
+
   // ============================================
   // エッジ操作
   // ============================================
 
   /**
    * エッジを追加
+   * 自己ループや循環を作る接続は拒否する
+   * スキーマが設定されている場合は出力ポートの範囲、型、入力名もチェックする
    * @param sourceNodeId ソースノードID
    * @param sourcePort ソースポート番号
    * @param targetNodeId ターゲットノードID
    * @param targetInputName ターゲット入力名
+   * @throws {ConnectionTypeError} 出力ポートが範囲外の場合、出力型が入力型と合わない場合、ターゲットのノード定義にない入力の場合
    */
   addEdge(
     sourceNodeId: string,
@@ -176,14 +662,35 @@ export class ComfyWorkflow {
     targetNodeId: string,
     targetInputName: string
   ): void {
-    if (!this.nodes[sourceNodeId]) {
-      throw new Error(`Source node "${sourceNodeId}" does not exist`);
-    }
-    if (!this.nodes[targetNodeId]) {
-      throw new Error(`Target node "${targetNodeId}" does not exist`);
-    }
+    this.mutate('addEdge', () => {
+      if (!this.nodes[sourceNodeId]) {
+        throw new Error(`Source node "${sourceNodeId}" does not exist`);
+      }
+      if (!this.nodes[targetNodeId]) {
+        throw new Error(`Target node "${targetNodeId}" does not exist`);
+      }
+      if (sourceNodeId === targetNodeId) {
+        throw new Error(`Cannot connect node "${sourceNodeId}" to itself`);
+      }
+      if (hasPath(this.nodes, targetNodeId, sourceNodeId)) {
+        throw new Error(
+          `Cannot connect node "${sourceNodeId}" to node "${targetNodeId}": the connection would create a cycle`
+        );
+      }
 
-    this.nodes[targetNodeId].inputs[targetInputName] = [sourceNodeId, sourcePort];
+      const issue = this.schema?.checkConnection(
+        this.nodes[sourceNodeId].class_type,
+        sourcePort,
+        this.nodes[targetNodeId].class_type,
+        targetInputName
+      );
+      if (issue) {
+        throw new ConnectionTypeError(sourceNodeId, sourcePort, targetNodeId, targetInputName, issue);
+      }
+
+      this.touch(targetNodeId);
+      this.nodes[targetNodeId].inputs[targetInputName] = [sourceNodeId, sourcePort];
+    });
   }
 
   /**
@@ -192,12 +699,55 @@ export class ComfyWorkflow {
    * @param inputName 入力名
    */
   removeEdge(targetNodeId: string, inputName: string): void {
-    const node = this.nodes[targetNodeId];
-    if (!node) return;
+    this.mutate('removeEdge', () => {
+      const node = this.nodes[targetNodeId];
+      if (!node) return;
 
-    if (isNodeConnection(node.inputs[inputName])) {
-      delete node.inputs[inputName];
-    }
+      if (isNodeConnection(node.inputs[inputName])) {
+        this.touch(targetNodeId);
+        delete node.inputs[inputName];
+      }
+    });
+  }
+
+  /**
+   * 既存のエッジの間にノードを挿入（接続元 → 新しいノード → 接続先）
+   *
+   * @example
+   * ```typescript
+   * // チェックポイントとサンプラーの間にLoRAを挿入
+   * const [edge] = workflow.queryEdges({ target: { id: samplerId }, inputName: 'model' });
+   * const loraId = workflow.insertOnEdge(edge, 'LoraLoader', { lora_name: 'detail.safetensors' });
+   * ```
+   * @param edge 既存のエッジ
+   * @param classType 挿入するノードのクラスタイプ
+   * @param inputs 挿入するノードの入力値
+   * @param options 接続に使う入力名・出力ポート（省略時はスキーマの型で決める）、ID、メタデータ
+   * @returns 挿入したノードのID
+   * @throws エッジが存在しない場合、型の合う入力・出力がない場合、接続の型が合わない場合
+   */
+  insertOnEdge(
+    edge: Edge,
+    classType: string,
+    inputs: { [key: string]: InputValue } = {},
+    options: InsertOnEdgeOptions = {}
+  ): string {
+    return this.mutate('insertOnEdge', () => {
+      const current = this.nodes[edge.targetNodeId]?.inputs[edge.targetInputName];
+      if (!isNodeConnection(current) || current[0] !== edge.sourceNodeId || current[1] !== edge.sourcePort) {
+        throw new Error(
+          `Edge from node "${edge.sourceNodeId}" port ${edge.sourcePort} to node "${edge.targetNodeId}" ` +
+            `input "${edge.targetInputName}" does not exist`
+        );
+      }
+
+      const nodeId = this.addNode(classType, inputs, { id: options.id, meta: options.meta });
+      const inputName = options.inputName ?? this.findInsertInput(edge, classType);
+      const outputPort = this.resolveOutputPort(nodeId, options.outputPort ?? this.findInsertOutput(edge, classType));
+      this.addEdge(edge.sourceNodeId, edge.sourcePort, nodeId, inputName);
+      this.addEdge(nodeId, outputPort, edge.targetNodeId, edge.targetInputName);
+      return nodeId;
+    });
   }
 
   /**
@@ -249,6 +799,105 @@ export class ComfyWorkflow {
     );
   }
 
+  // ============================================
+  // グラフ解析
+  // ============================================
+
+  /**
+   * トポロジカルソートした実行順序を取得（上流のノードが先、同順位はID順）
+   * @throws 循環がある場合
+   */
+  topologicalSort(): string[] {
+    return topologicalSort(this.nodes);
+  }
+
+  /**
+   * 循環があるか確認
+   */
+  hasCycle(): boolean {
+    return findCycles(this.nodes).length > 0;
+  }
+
+  /**
+   * 循環を検出（強連結成分ごとに1つ）
+   * @returns 循環ごとのノードID配列（データの流れる順）
+   */
+  findCycles(): string[][] {
+    return findCycles(this.nodes);
+  }
+
+  /**
+   * 上流（祖先）ノードのIDを取得
+   * @param nodeId ノードID
+   */
+  getAncestors(nodeId: string): string[] {
+    return getAncestors(this.nodes, nodeId);
+  }
+
+  /**
+   * 下流（子孫）ノードのIDを取得
+   * @param nodeId ノードID
+   */
+  getDescendants(nodeId: string): string[] {
+    return getDescendants(this.nodes, nodeId);
+  }
+
+  /**
+   * 指定したノードだけを含む新しいワークフローを作成
+   * 範囲外のノードへの接続は取り除かれる
+   * @param nodeIds 含めるノードのID
+   */
+  extractSubgraph(nodeIds: Iterable<string>): ComfyWorkflow {
+    const ids = new Set(nodeIds);
+    const subgraph: ComfyWorkflowJson = {};
+
+    for (const nodeId of ids) {
+      const node = this.nodes[nodeId];
+      if (!node) {
+        throw new Error(`Node "${nodeId}" does not exist`);
+      }
+      const copy: ComfyNode = JSON.parse(JSON.stringify(node));
+      for (const [inputName, value] of Object.entries(copy.inputs)) {
+        if (isNodeConnection(value) && !ids.has(value[0])) {
+          delete copy.inputs[inputName];
+        }
+      }
+      subgraph[nodeId] = copy;
+    }
+
+    return ComfyWorkflow.fromJson(subgraph, { schema: this.schema });
+  }
+
+  /**
+   * 出力ノードのIDを取得
+   * スキーマが設定されていればoutput_nodeフラグを持つノードも含む
+   * @param options 出力ノードとして扱うclass_type（省略時はSaveImage, PreviewImageなど）
+   */
+  getOutputNodes(options: OutputNodeOptions = {}): string[] {
+    return findOutputNodes(this.nodes, { schema: this.schema, ...options });
+  }
+
+  /**
+   * どの出力ノードにも寄与しないノードを削除
+   * @param options 出力ノードとして扱うclass_type（省略時はSaveImage, PreviewImageなど）
+   * @returns 削除したノードのID
+   * @throws 出力ノードが1つもない場合
+   */
+  prune(options: OutputNodeOptions = {}): string[] {
+    return this.mutate('prune', () => {
+      const resolved = { schema: this.schema, ...options };
+      if (findOutputNodes(this.nodes, resolved).length === 0) {
+        throw new Error('Workflow has no output nodes to prune towards');
+      }
+
+      const deadNodeIds = findDeadNodes(this.nodes, resolved);
+      for (const nodeId of deadNodeIds) {
+        this.removeNode(nodeId);
+      }
+      return deadNodeIds;
+    });
+  }
+
   // ============================================
   // 入力操作
   // ============================================
@@ -260,11 +909,15 @@ export class ComfyWorkflow {
    * @param value 値
    */
   setInput(nodeId: string, name: string, value: InputValue): void {
-    const node = this.nodes[nodeId];
-    if (!node) {
-      throw new Error(`Node "${nodeId}" does not exist`);
-    }
-    node.inputs[name] = value;
+    this.mutate('setInput', () => {
+      const node = this.nodes[nodeId];
+      if (!node) {
+        throw new Error(`Node "${nodeId}" does not exist`);
+      }
+      const copy = this.copyInputs({ [name]: value })[name];
+      this.touch(nodeId);
+      node.inputs[name] = copy;
+    });
   }
 
   /**
@@ -273,9 +926,8 @@ export class ComfyWorkflow {
    * @param name 入力名
    */
   getInput(nodeId: string, name: string): InputValue | undefined {
-    const node = this.nodes[nodeId];
-    if (!node) return undefined;
-    return node.inputs[name];
+    const value = this.nodes[nodeId]?.inputs[name];
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
   }
 
   /**
@@ -285,7 +937,7 @@ export class ComfyWorkflow {
   getInputs(nodeId: string): { [key: string]: InputValue } | undefined {
     const node = this.nodes[nodeId];
     if (!node) return undefined;
-    return { ...node.inputs };
+    return JSON.parse(JSON.stringify(node.inputs));
   }
 
   /**
@@ -294,11 +946,15 @@ export class ComfyWorkflow {
    * @param inputs 入力値のオブジェクト
    */
   updateInputs(nodeId: string, inputs: { [key: string]: InputValue }): void {
-    const node = this.nodes[nodeId];
-    if (!node) {
-      throw new Error(`Node "${nodeId}" does not exist`);
-    }
-    Object.assign(node.inputs, inputs);
+    this.mutate('updateInputs', () => {
+      const node = this.nodes[nodeId];
+      if (!node) {
+        throw new Error(`Node "${nodeId}" does not exist`);
+      }
+      const copy = this.copyInputs(inputs);
+      this.touch(nodeId);
+      Object.assign(node.inputs, copy);
+    });
   }
 
   /**
@@ -307,9 +963,237 @@ export class ComfyWorkflow {
    * @param name 入力名
    */
   clearInput(nodeId: string, name: string): void {
-    const node = this.nodes[nodeId];
-    if (!node) return;
-    delete node.inputs[name];
+    this.mutate('clearInput', () => {
+      const node = this.nodes[nodeId];
+      if (!node || !(name in node.inputs)) return;
+      this.touch(nodeId);
+      delete node.inputs[name];
+    });
+  }
+
+  /**
+   * 入力値の組み合わせごとのバリエーションを生成（パラメータスイープ）
+   * バリエーションは反復時に1つずつ生成される。このワークフローは変更しない
+   *
+   * @example
+   * ```typescript
+   * const sweep = workflow.sweep({
+   *   [`${samplerId}.seed`]: [1, 2, 3],
+   *   [`${samplerId}.cfg`]: range(4, 9, 0.5),
+   * });
+   * for (const { index, params, workflow } of sweep) {
+   *   writeFileSync(`variant-${index}.json`, workflow.toJsonString(2));
+   * }
+   * ```
+   * @param axes "ノードID.入力名" → 値の一覧
+   * @param options オプション（product: 直積、zip: 同じ位置の値同士）
+   */
+  sweep(axes: SweepAxes, options: SweepOptions = {}): WorkflowSweep {
+    const schema = this.schema;
+    return new WorkflowSweep(this.toJson(), axes, json => ComfyWorkflow.fromJson(json, { schema }), options);
+  }
+
+  // ============================================
+  // アセット
+  // ============================================
+
+  /**
+   * 参照しているモデルファイル（ckpt_name、lora_nameなど）の一覧
+   * @param options 入力とモデルの種類の対応の追加
+   */
+  getAssetReferences(options: AssetOptions = {}): AssetReference[] {
+    return getAssetReferences(this.nodes, options);
+  }
+
+  /**
+   * モデルファイルの参照を置き換え
+   *
+   * @example
+   * ```typescript
+   * workflow.remapAssets({ 'sd_xl_base_1.0.safetensors': 'SDXL/sd_xl_base_1.0.safetensors' });
+   * workflow.remapAssets(ref => (ref.category === 'loras' ? `shared/${ref.filename}` : undefined));
+   * ```
+   * @param mapping 元のファイル名 → 新しいファイル名、または参照ごとに新しいファイル名を返す関数
+   * @param options 入力とモデルの種類の対応の追加
+   * @returns 置き換えた参照（filenameは置き換え前の値）
+   */
+  remapAssets(mapping: AssetMapping, options: AssetOptions = {}): AssetReference[] {
+    return this.mutate('remapAssets', () => {
+      const { json, remapped } = remapAssetsJson(this.nodes, mapping, options);
+      this.replaceNodes(json);
+      return remapped;
+    });
+  }
+
+  /**
+   * 参照しているモデルファイルがローカルのComfyUIの models/ ディレクトリにあるか確認（Node.jsのみ）
+   * @param modelsDir ComfyUIの models/ ディレクトリ
+   * @param options 入力とモデルの種類の対応、探すディレクトリの追加
+   */
+  checkAssets(modelsDir: string, options: CheckAssetsOptions = {}): Promise<AssetCheckResult> {
+    return checkAssets(this.toJson(), modelsDir, options);
+  }
+
+  // ============================================
+  // トランザクション・履歴
+  // ============================================
+
+  /**
+   * 複数の操作をまとめて実行
+   * fnが例外を投げた場合、または終了時のvalidateWorkflowが失敗した場合は全ての変更を取り消す
+   * 成功した場合は1つの操作として履歴に記録される
+   * @param fn 操作を行う関数（同期関数のみ）
+   * @param options オプション
+   * @returns fnの戻り値
+   * @throws {WorkflowValidationError} 終了時のバリデーションに失敗した場合
+   */
+  transaction<T>(fn: (workflow: ComfyWorkflow) => T, options: TransactionOptions = {}): T {
+    return this.mutate(options.label ?? 'transaction', () => {
+      const result = fn(this);
+      if (result instanceof Promise) {
+        throw new Error('Transaction callback must be synchronous');
+      }
+      if (options.validate !== false) {
+        const validation = validateWorkflow(this.nodes, { schema: this.schema });
+        if (!validation.valid) {
+          throw new WorkflowValidationError(validation);
+        }
+      }
+      return result;
+    });
+  }
+
+  /**
+   * 直前の操作を取り消す
+   * @returns 取り消せた場合はtrue
+   */
+  undo(): boolean {
+    this.assertNotMutating('undo');
+    const entry = this.undoStack.pop();
+    if (!entry) return false;
+    this.applyNodeStates(
+      entry.changes.map(change => [change.nodeId, change.before]),
+      entry.orderBefore
+    );
+    this.redoStack.push(entry);
+    return true;
+  }
+
+  /**
+   * 取り消した操作をやり直す
+   * @returns やり直せた場合はtrue
+   */
+  redo(): boolean {
+    this.assertNotMutating('redo');
+    const entry = this.redoStack.pop();
+    if (!entry) return false;
+    this.applyNodeStates(
+      entry.changes.map(change => [change.nodeId, change.after]),
+      entry.orderAfter
+    );
+    this.undoStack.push(entry);
+    return true;
+  }
+
+  /**
+   * undoできるか確認
+   */
+  canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  /**
+   * redoできるか確認
+   */
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * 履歴の操作名を取得（古い順）
+   */
+  getHistory(): { undo: string[]; redo: string[] } {
+    return {
+      undo: this.undoStack.map(entry => entry.label),
+      redo: this.redoStack.map(entry => entry.label).reverse(),
+    };
+  }
+
+  /**
+   * 履歴を消去
+   */
+  clearHistory(): void {
+    this.undoStack = [];
+    this.redoStack = [];
+  }
+
+  // ============================================
+  // JSON Patch
+  // ============================================
+
+  /**
+   * このワークフローをotherに変換するJSON Patch（RFC 6902）を生成
+   * ノードIDで対応付けるため、IDが異なるノードは削除と追加として表現される
+   * @param other 変換先のワークフロー
+   */
+  diffPatch(other: ComfyWorkflow): JsonPatchOperation[] {
+    return createWorkflowPatch(this.nodes, other.nodes);
+  }
+
+  /**
+   * JSON Patch（RFC 6902）を適用
+   * 適用後の構造が不正な場合や、存在しないノードへの接続が残る場合は適用しない
+   * @param patch JSON Patch
+   * @throws {JsonPatchError} 操作が不正な場合、参照の整合性が崩れる場合
+   */
+  applyPatch(patch: JsonPatchOperation[]): void {
+    this.mutate('applyPatch', () => {
+      const patched = applyJsonPatch(this.nodes, patch);
+      if (!isComfyWorkflowJson(patched)) {
+        throw new JsonPatchError('Patched document is not a valid ComfyWorkflowJson');
+      }
+
+      for (const [nodeId, node] of Object.entries(patched)) {
+        for (const [inputName, value] of Object.entries(node.inputs)) {
+          if (isNodeConnection(value) && !hasNode(patched, value[0])) {
+            throw new JsonPatchError(
+              `Patch leaves node "${nodeId}" input "${inputName}" connected to non-existent node "${value[0]}"`
+            );
+          }
+        }
+      }
+
+      this.replaceNodes(patched);
+    });
+  }
+
+  // ============================================
+  // 正規化
+  // ============================================
+
+  /**
+   * ノードIDと入力の順序を正規化
+   * ノードIDをトポロジカル順に1から振り直して接続を書き換え、入力のキーを名前順に並べる
+   * 意味的に同じワークフローはtoJsonStringの結果がバイト単位で一致する
+   * @returns 元のノードID → 新しいノードID
+   * @throws 循環がある場合、存在しないノードへの接続がある場合
+   */
+  canonicalize(): { [oldNodeId: string]: string } {
+    return this.mutate('canonicalize', () => {
+      const { json, idMap } = canonicalizeWorkflowJson(this.nodes);
+      this.replaceNodes(json);
+      return idMap;
+    });
+  }
+
+  /**
+   * 内容ハッシュを取得（正規形から計算するため、ノードIDや順序の違いに影響されない）
+   * キャッシュのキーなどに利用できる
+   * @returns 16桁の16進文字列
+   * @throws 循環がある場合、存在しないノードへの接続がある場合
+   */
+  contentHash(): string {
+    return computeContentHash(this.nodes);
   }
 
   // ============================================
@@ -327,78 +1211,104 @@ export class ComfyWorkflow {
 
   /**
    * 構造的差分を取得（デバッグ用）
+   * 上流のトポロジーを含めてノードを対応付け、対応するノードごとに入力値と接続を比較する
+   * ノード数が異なるclass_typeはclass_type_count_mismatchとしてまとめて報告し、
+   * 対応するノードがないノードの個別の報告（extra_node_type・missing_node_type）はノード数が同じclass_typeのみ行う
    * @param other 比較対象のワークフロー
    * @returns 差分情報の配列（空配列なら等価）
    */
   getStructuralDiff(other: ComfyWorkflow): StructuralDiff[] {
     const diffs: StructuralDiff[] = [];
+    const { mapping } = matchWorkflowNodes(this.nodes, other.nodes);
 
-    const thisGrouped = this.groupNodesByType();
-    const otherGrouped = other.groupNodesByType();
-
-    const allClassTypes = new Set([
-      ...Object.keys(thisGrouped),
-      ...Object.keys(otherGrouped),
-    ]);
-
+    // class_typeごとのノード数の比較
+    const thisCounts = this.countNodesByType();
+    const otherCounts = other.countNodesByType();
+    const allClassTypes = new Set([...thisCounts.keys(), ...otherCounts.keys()]);
+    const countMismatched = new Set<string>();
     for (const classType of allClassTypes) {
-      const thisNodes = thisGrouped[classType] || [];
-      const otherNodes = otherGrouped[classType] || [];
-
-      // ノード数の比較
-      if (thisNodes.length !== otherNodes.length) {
+      const actual = thisCounts.get(classType) ?? 0;
+      const expected = otherCounts.get(classType) ?? 0;
+      if (actual !== expected) {
+        countMismatched.add(classType);
         diffs.push({
           type: 'class_type_count_mismatch',
           classType,
-          expected: otherNodes.length,
-          actual: thisNodes.length,
-          details: `${classType}: expected ${otherNodes.length} nodes, got ${thisNodes.length}`,
+          expected,
+          actual,
+          details: `${classType}: expected ${expected} nodes, got ${actual}`,
         });
-        continue;
       }
+    }
 
-      // 同じclass_typeのノード同士で入力値を比較
-      // ノードが1つだけの場合は直接比較、複数の場合はマッチングを試みる
-      if (thisNodes.length === 1) {
-        const inputDiffs = this.compareNodeInputs(
-          thisNodes[0].node,
-          otherNodes[0].node,
-          other
-        );
-        diffs.push(...inputDiffs.map(d => ({ ...d, classType })));
-      } else if (thisNodes.length > 1) {
-        // 複数ノードの場合、最適なマッチングを探す
-        const matchResult = this.findBestNodeMatching(thisNodes, otherNodes, other);
-        diffs.push(...matchResult.map(d => ({ ...d, classType })));
+    // 対応するノード同士の比較
+    const matchedOther = new Set(Object.values(mapping));
+    for (const nodeId of Object.keys(this.nodes).sort(compareNodeIds)) {
+      const node = this.nodes[nodeId];
+      const otherNodeId = mapping[nodeId];
+      if (otherNodeId === undefined) {
+        if (countMismatched.has(node.class_type)) continue;
+        diffs.push({
+          type: 'extra_node_type',
+          classType: node.class_type,
+          nodeId,
+          details: `Node "${nodeId}" (${node.class_type}) has no counterpart in the other workflow`,
+        });
+        continue;
       }
+      diffs.push(...this.compareNodeInputs(nodeId, other, otherNodeId, mapping));
+    }
+
+    for (const otherNodeId of Object.keys(other.nodes).sort(compareNodeIds)) {
+      if (matchedOther.has(otherNodeId)) continue;
+      const classType = other.nodes[otherNodeId].class_type;
+      if (countMismatched.has(classType)) continue;
+      diffs.push({
+        type: 'missing_node_type',
+        classType,
+        otherNodeId,
+        details: `Node "${otherNodeId}" (${classType}) of the other workflow has no counterpart in this workflow`,
+      });
     }
 
     return diffs;
   }
 
   /**
-   * ノードをclass_typeでグループ化
+   * 比較対象のワークフローとのノードIDの対応を取得
+   * 対応するノードが見つからないノードは含まれない
+   * @param other 比較対象のワークフロー
+   * @returns このワークフローのノードID → 比較対象のノードID
    */
-  private groupNodesByType(): { [classType: string]: { id: string; node: ComfyNode }[] } {
-    const grouped: { [classType: string]: { id: string; node: ComfyNode }[] } = {};
-    for (const [id, node] of Object.entries(this.nodes)) {
-      if (!grouped[node.class_type]) {
-        grouped[node.class_type] = [];
-      }
-      grouped[node.class_type].push({ id, node });
+  getNodeMapping(other: ComfyWorkflow): { [nodeId: string]: string } {
+    return matchWorkflowNodes(this.nodes, other.nodes).mapping;
+  }
+
+  /**
+   * class_typeごとのノード数
+   */
+  private countNodesByType(): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const node of Object.values(this.nodes)) {
+      counts.set(node.class_type, (counts.get(node.class_type) ?? 0) + 1);
     }
-    return grouped;
+    return counts;
   }
 
   /**
-   * 2つのノードの入力値を比較
+   * 対応する2つのノードの入力値を比較
    */
   private compareNodeInputs(
-    thisNode: ComfyNode,
-    otherNode: ComfyNode,
-    otherWorkflow: ComfyWorkflow
+    nodeId: string,
+    otherWorkflow: ComfyWorkflow,
+    otherNodeId: string,
+    mapping: { [nodeId: string]: string }
   ): StructuralDiff[] {
     const diffs: StructuralDiff[] = [];
+    const thisNode = this.nodes[nodeId];
+    const otherNode = otherWorkflow.nodes[otherNodeId];
+    const base = { classType: thisNode.class_type, nodeId, otherNodeId };
+    const label = `Node "${nodeId}" (other "${otherNodeId}")`;
 
     const allInputNames = new Set([
       ...Object.keys(thisNode.inputs),
@@ -408,60 +1318,60 @@ export class ComfyWorkflow {
     for (const inputName of allInputNames) {
       const thisValue = thisNode.inputs[inputName];
       const otherValue = otherNode.inputs[inputName];
+      if (isInputEquivalent(thisValue, otherValue, mapping)) continue;
 
       // 両方とも接続の場合
       if (isNodeConnection(thisValue) && isNodeConnection(otherValue)) {
         const thisNormalized = this.normalizeConnection(thisValue);
         const otherNormalized = otherWorkflow.normalizeConnection(otherValue);
-
-        if (thisNormalized !== otherNormalized) {
-          diffs.push({
-            type: 'connection_mismatch',
-            inputName,
-            expected: otherNormalized,
-            actual: thisNormalized,
-            details: `Input "${inputName}": connection mismatch - expected ${otherNormalized}, got ${thisNormalized}`,
-          });
-        }
+        diffs.push({
+          type: 'connection_mismatch',
+          ...base,
+          inputName,
+          expected: otherNormalized,
+          actual: thisNormalized,
+          details: `${label} input "${inputName}": connection mismatch - expected ${otherNormalized}, got ${thisNormalized}`,
+        });
       }
       // 片方だけ接続の場合
       else if (isNodeConnection(thisValue) !== isNodeConnection(otherValue)) {
         diffs.push({
           type: 'input_mismatch',
+          ...base,
           inputName,
           expected: otherValue,
           actual: thisValue,
-          details: `Input "${inputName}": type mismatch - one is connection, other is value`,
+          details: `${label} input "${inputName}": type mismatch - one is connection, other is value`,
         });
       }
-      // 両方とも値の場合
-      else if (thisValue !== otherValue) {
-        // undefinedとの比較（片方にだけ存在する入力）
-        if (thisValue === undefined) {
-          diffs.push({
-            type: 'input_mismatch',
-            inputName,
-            expected: otherValue,
-            actual: undefined,
-            details: `Input "${inputName}": missing in this workflow`,
-          });
-        } else if (otherValue === undefined) {
-          diffs.push({
-            type: 'input_mismatch',
-            inputName,
-            expected: undefined,
-            actual: thisValue,
-            details: `Input "${inputName}": extra in this workflow`,
-          });
-        } else {
-          diffs.push({
-            type: 'input_mismatch',
-            inputName,
-            expected: otherValue,
-            actual: thisValue,
-            details: `Input "${inputName}": expected ${JSON.stringify(otherValue)}, got ${JSON.stringify(thisValue)}`,
-          });
-        }
+      // undefinedとの比較（片方にだけ存在する入力）
+      else if (thisValue === undefined) {
+        diffs.push({
+          type: 'input_mismatch',
+          ...base,
+          inputName,
+          expected: otherValue,
+          actual: undefined,
+          details: `${label} input "${inputName}": missing in this workflow`,
+        });
+      } else if (otherValue === undefined) {
+        diffs.push({
+          type: 'input_mismatch',
+          ...base,
+          inputName,
+          expected: undefined,
+          actual: thisValue,
+          details: `${label} input "${inputName}": extra in this workflow`,
+        });
+      } else {
+        diffs.push({
+          type: 'input_mismatch',
+          ...base,
+          inputName,
+          expected: otherValue,
+          actual: thisValue,
+          details: `${label} input "${inputName}": expected ${JSON.stringify(otherValue)}, got ${JSON.stringify(thisValue)}`,
+        });
       }
     }
 
@@ -469,94 +1379,242 @@ export class ComfyWorkflow {
   }
 
   /**
-   * 接続を正規化（ノードIDではなくclass_type:portで表現）
+   * 接続を表示用に正規化（"ノードID:class_type:port"で表現）
    */
   private normalizeConnection(connection: [string, number]): string {
     const [nodeId, port] = connection;
     const node = this.nodes[nodeId];
     if (!node) {
-      return `UNKNOWN:${port}`;
+      return `${nodeId}:UNKNOWN:${port}`;
     }
-    return `${node.class_type}:${port}`;
+    return `${nodeId}:${node.class_type}:${port}`;
   }
 
+  // ============================================
+  // プライベートメソッド
+  // ============================================
+
   /**
-   * 複数ノードの最適なマッチングを探す
+   * ワークフローを変更する操作を実行
+   * 例外が発生した場合は操作前の状態に戻し、成功した場合は履歴に記録する
+   * 操作の中から呼ばれた操作は外側の操作の一部として扱う
+   * 全体をコピーせず、操作中に変更したノード（touch）の操作前の状態だけを保持する
+   * @param label 履歴に記録する操作名
+   * @param fn 操作
    */
-  private findBestNodeMatching(
-    thisNodes: { id: string; node: ComfyNode }[],
-    otherNodes: { id: string; node: ComfyNode }[],
-    otherWorkflow: ComfyWorkflow
-  ): StructuralDiff[] {
-    // 簡易実装: 入力値のハッシュでマッチングを試みる
-    const thisHashes = thisNodes.map(n => this.hashNodeInputs(n.node));
-    const otherHashes = otherNodes.map(n => otherWorkflow.hashNodeInputs(n.node));
-
-    const unmatchedThis: number[] = [];
-    const unmatchedOther = new Set(otherHashes.map((_, i) => i));
-
-    for (let i = 0; i < thisHashes.length; i++) {
-      let matched = false;
-      for (const j of unmatchedOther) {
-        if (thisHashes[i] === otherHashes[j]) {
-          unmatchedOther.delete(j);
-          matched = true;
-          break;
-        }
+  private mutate<T>(label: string, fn: () => T): T {
+    const journal: MutationJournal = { before: new Map() };
+    this.journals.push(journal);
+    try {
+      const result = fn();
+      if (this.journals.length === 1) {
+        this.recordHistory(label, journal);
       }
-      if (!matched) {
-        unmatchedThis.push(i);
+      return result;
+    } catch (e) {
+      this.applyNodeStates(journal.before, journal.order);
+      throw e;
+    } finally {
+      this.journals.pop();
+    }
+  }
+
+  /**
+   * 変更したノードを履歴に記録（変更がなければ記録しない）
+   */
+  private recordHistory(label: string, journal: MutationJournal): void {
+    if (this.historyLimit <= 0) {
+      return;
+    }
+
+    const changes: NodeChange[] = [];
+    for (const [nodeId, before] of journal.before) {
+      const after = this.nodes[nodeId];
+      if (before === undefined && after === undefined) continue;
+      if (before !== undefined && after !== undefined && JSON.stringify(before) === JSON.stringify(after)) continue;
+      changes.push({ nodeId, before, after: after && JSON.parse(JSON.stringify(after)) });
+    }
+
+    const entry: HistoryEntry = { label, changes };
+    if (journal.order) {
+      const order = Object.keys(this.nodes);
+      if (order.join('\0') !== journal.order.join('\0')) {
+        entry.orderBefore = journal.order;
+        entry.orderAfter = order;
       }
     }
+    if (changes.length === 0 && !entry.orderBefore) {
+      return;
+    }
 
-    const diffs: StructuralDiff[] = [];
+    this.undoStack.push(entry);
+    if (this.undoStack.length > this.historyLimit) {
+      this.undoStack.shift();
+    }
+    this.redoStack = [];
+  }
 
-    // マッチしなかったノードがある場合、詳細比較
-    if (unmatchedThis.length > 0 || unmatchedOther.size > 0) {
-      // 最初のunmatchedペアで詳細比較
-      if (unmatchedThis.length > 0 && unmatchedOther.size > 0) {
-        const thisIdx = unmatchedThis[0];
-        const otherIdx = [...unmatchedOther][0];
-        diffs.push(
-          ...this.compareNodeInputs(
-            thisNodes[thisIdx].node,
-            otherNodes[otherIdx].node,
-            otherWorkflow
-          )
-        );
+  /**
+   * 変更する前のノードの状態を記録（操作ごとに最初の1回のみ）
+   * ノードを追加・変更する前に呼ぶ
+   */
+  private touch(nodeId: string): void {
+    const journals = this.journals.filter(journal => !journal.before.has(nodeId));
+    if (journals.length === 0) return;
+    const node = this.nodes[nodeId];
+    const before: ComfyNode | undefined = node && JSON.parse(JSON.stringify(node));
+    for (const journal of journals) {
+      journal.before.set(nodeId, before);
+    }
+  }
+
+  /**
+   * ノードを削除（元に戻すときに順序を復元できるよう、ノードIDの順序も記録する）
+   */
+  private deleteNode(nodeId: string): void {
+    this.recordOrder();
+    this.touch(nodeId);
+    delete this.nodes[nodeId];
+  }
+
+  /**
+   * 全ノードを置き換える（JSONを返すヘルパー関数の結果を反映する）
+   * @param json 新しいノード（this.nodesのノードと共有しないこと）
+   */
+  private replaceNodes(json: ComfyWorkflowJson): void {
+    this.recordOrder();
+    for (const journal of this.journals) {
+      for (const nodeId of new Set([...Object.keys(this.nodes), ...Object.keys(json)])) {
+        // 置き換え後は元のノードを変更しないため、コピーせずに記録する
+        if (!journal.before.has(nodeId)) {
+          journal.before.set(nodeId, this.nodes[nodeId]);
+        }
       }
     }
+    this.nodes = json;
+  }
 
-    return diffs;
+  /**
+   * 現在のノードIDの順序を記録（操作ごとに最初の1回のみ）
+   */
+  private recordOrder(): void {
+    for (const journal of this.journals) {
+      if (!journal.order) {
+        journal.order = Object.keys(this.nodes);
+      }
+    }
   }
 
   /**
-   * ノードの入力値をハッシュ化（マッチング用）
+   * ノードの状態を反映（undefinedのノードは削除）
+   * @param states ノードID → 状態
+   * @param order ノードIDの順序（指定した場合は並べ替える）
    */
-  private hashNodeInputs(node: ComfyNode): string {
-    const normalized: { [key: string]: string } = {};
-    for (const [key, value] of Object.entries(node.inputs)) {
-      if (isNodeConnection(value)) {
-        normalized[key] = this.normalizeConnection(value);
+  private applyNodeStates(states: Iterable<[string, ComfyNode | undefined]>, order?: string[]): void {
+    for (const [nodeId, node] of states) {
+      if (node === undefined) {
+        delete this.nodes[nodeId];
       } else {
-        normalized[key] = JSON.stringify(value);
+        this.nodes[nodeId] = JSON.parse(JSON.stringify(node));
       }
     }
-    // キーでソートして文字列化
-    const sortedKeys = Object.keys(normalized).sort();
-    return sortedKeys.map(k => `${k}:${normalized[k]}`).join('|');
+    if (order) {
+      const sorted: ComfyWorkflowJson = {};
+      for (const nodeId of [...order, ...Object.keys(this.nodes)]) {
+        if (this.nodes[nodeId] && !sorted[nodeId]) sorted[nodeId] = this.nodes[nodeId];
+      }
+      this.nodes = sorted;
+    }
   }
 
-  // ============================================
-  // プライベートメソッド
-  // ============================================
+  /**
+   * 操作中でないことを確認
+   */
+  private assertNotMutating(operation: string): void {
+    if (this.journals.length > 0) {
+      throw new Error(`Cannot ${operation} inside a transaction`);
+    }
+  }
 
   /**
-   * 新しいノードIDを生成（既存の最大ID + 1）
+   * 新しいノードIDを生成（同じ接頭辞を持つ既存の最大ID + 1）
+   * @param prefix IDの接頭辞
    */
-  private generateNodeId(): string {
-    const ids = Object.keys(this.nodes).map(id => parseInt(id)).filter(id => !isNaN(id));
+  private generateNodeId(prefix = ''): string {
+    const ids = Object.keys(this.nodes)
+      .filter(id => id.startsWith(prefix))
+      .map(id => parseInt(id.slice(prefix.length)))
+      .filter(id => !isNaN(id));
     const maxId = ids.length > 0 ? Math.max(...ids) : 0;
-    return String(maxId + 1);
+    return `${prefix}${maxId + 1}`;
+  }
+
+  /**
+   * 入力値をチェックしてディープコピー（配列・オブジェクトの値を呼び出し元と共有しない）
+   * @throws JSON値でない入力値がある場合
+   */
+  private copyInputs(inputs: { [key: string]: InputValue }): { [key: string]: InputValue } {
+    for (const [name, value] of Object.entries(inputs)) {
+      if (!isJsonValue(value)) {
+        throw new Error(`Input "${name}" must be a JSON value, got ${String(value)}`);
+      }
+    }
+    return JSON.parse(JSON.stringify(inputs));
+  }
+
+  /**
+   * insertOnEdgeでエッジの接続元をつなぐ入力名
+   * エッジと同じ入力名の型が合えばそれを、なければ最初に型の合う入力を使う（スキーマがなければエッジの入力名）
+   * @throws 型の合う入力がない場合
+   */
+  private findInsertInput(edge: Edge, classType: string): string {
+    const sourceType = this.schema?.getOutputs(this.nodes[edge.sourceNodeId].class_type)?.[edge.sourcePort]?.type;
+    const inputs = this.schema?.get(classType)?.inputs.filter(input => !input.isWidget);
+    if (sourceType === undefined || !inputs) {
+      return edge.targetInputName;
+    }
+    const compatible = inputs.filter(input => isTypeCompatible(sourceType, input.type));
+    if (compatible.length === 0) {
+      throw new Error(`Node type "${classType}" has no input compatible with type "${sourceType}"`);
+    }
+    return (compatible.find(input => input.name === edge.targetInputName) ?? compatible[0]).name;
+  }
+
+  /**
+   * insertOnEdgeでエッジの接続先につなぐ出力ポート
+   * 接続先の入力と型が合う最初の出力を使う（スキーマがなければ0）
+   * @throws 型の合う出力がない場合
+   */
+  private findInsertOutput(edge: Edge, classType: string): number {
+    const targetType = this.schema?.getInput(this.nodes[edge.targetNodeId].class_type, edge.targetInputName)?.type;
+    const outputs = this.schema?.getOutputs(classType);
+    if (targetType === undefined || !outputs) {
+      return 0;
+    }
+    const index = outputs.findIndex(output => isTypeCompatible(output.type, targetType));
+    if (index < 0) {
+      throw new Error(`Node type "${classType}" has no output compatible with type "${targetType}"`);
+    }
+    return index;
+  }
+
+  /**
+   * 出力ポートを番号に解決（出力名はスキーマで解決する）
+   * @param nodeId ノードID
+   * @param port ポート番号または出力名
+   */
+  private resolveOutputPort(nodeId: string, port: number | string): number {
+    if (typeof port === 'number') {
+      return port;
+    }
+    const node = this.nodes[nodeId];
+    if (!node) {
+      throw new Error(`Node "${nodeId}" does not exist`);
+    }
+    const index = this.schema?.getOutputs(node.class_type)?.findIndex(output => output.name === port) ?? -1;
+    if (index < 0) {
+      throw new Error(`Cannot resolve output "${port}" of node "${nodeId}" (${node.class_type})`);
+    }
+    return index;
   }
 }
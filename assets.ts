@@ -0,0 +1,205 @@
+/**
+ * ComfyUI Workflow Assets
+ *
+ * ワークフローが参照するモデルファイル（チェックポイント、LoRAなど）の一覧・置き換え・存在確認
+ */
+
+import { ComfyWorkflowJson, unwrapInputValue } from './types';
+import { compareNodeIds } from './graph';
+
+/** モデルファイルへの参照 */
+export interface AssetReference {
+  nodeId: string;
+  classType: string;
+  inputName: string;
+  /** モデルの種類（ComfyUIの models/ 以下のディレクトリ名: 'checkpoints', 'loras', ...） */
+  category: string;
+  /** ファイル名（サブフォルダを含む場合がある） */
+  filename: string;
+}
+
+/** getAssetReferencesなどのオプション */
+export interface AssetOptions {
+  /**
+   * 追加・上書きする入力とモデルの種類の対応
+   * キーは入力名、または特定のノードに限定する場合は "class_type.入力名"
+   */
+  categories?: { [input: string]: string };
+}
+
+/** 置き換え先の指定（元のファイル名 → 新しいファイル名、または参照ごとに新しいファイル名を返す関数） */
+export type AssetMapping = { [filename: string]: string } | ((reference: AssetReference) => string | undefined);
+
+/** remapAssetsJsonの結果 */
+export interface RemapAssetsResult {
+  json: ComfyWorkflowJson;
+  /** 置き換えた参照（filenameは置き換え前の値） */
+  remapped: AssetReference[];
+}
+
+/** checkAssetsのオプション */
+export interface CheckAssetsOptions extends AssetOptions {
+  /** モデルの種類 → 探すディレクトリ（modelsDirからの相対パス） */
+  directories?: { [category: string]: string[] };
+}
+
+/** checkAssetsの結果 */
+export interface AssetCheckResult {
+  /** 見つかった参照とファイルのパス */
+  found: (AssetReference & { path: string })[];
+  /** 見つからなかった参照 */
+  missing: (AssetReference & {
+    /** 同じディレクトリ内にある、ファイル名（サブフォルダを除く）が同じファイル */
+    suggestions: string[];
+  })[];
+}
+
+/** 入力名 → モデルの種類 */
+const DEFAULT_CATEGORIES: { [input: string]: string } = {
+  ckpt_name: 'checkpoints',
+  vae_name: 'vae',
+  lora_name: 'loras',
+  control_net_name: 'controlnet',
+  upscale_model_name: 'upscale_models',
+  clip_name: 'text_encoders',
+  clip_name1: 'text_encoders',
+  clip_name2: 'text_encoders',
+  clip_name3: 'text_encoders',
+  unet_name: 'diffusion_models',
+  style_model_name: 'style_models',
+  gligen_name: 'gligen',
+  hypernetwork_name: 'hypernetworks',
+  'UpscaleModelLoader.model_name': 'upscale_models',
+  'CLIPVisionLoader.clip_name': 'clip_vision',
+};
+
+/** モデルの種類 → models/ 以下のディレクトリ（旧名のディレクトリも含む） */
+const DEFAULT_DIRECTORIES: { [category: string]: string[] } = {
+  text_encoders: ['text_encoders', 'clip'],
+  diffusion_models: ['diffusion_models', 'unet'],
+};
+
+/**
+ * ワークフローが参照するモデルファイルの一覧
+ * 入力値が文字列の入力のみ対象（接続されている入力は除く、リテラル値はラップを外した値を見る）
+ * @param json ワークフローJSON
+ * @param options 入力とモデルの種類の対応の追加
+ * @returns 参照（ノードID順）
+ */
+export function getAssetReferences(json: ComfyWorkflowJson, options: AssetOptions = {}): AssetReference[] {
+  const categories = { ...DEFAULT_CATEGORIES, ...options.categories };
+  const references: AssetReference[] = [];
+  for (const nodeId of Object.keys(json).sort(compareNodeIds)) {
+    const node = json[nodeId];
+    for (const [inputName, inputValue] of Object.entries(node.inputs)) {
+      const category = categories[`${node.class_type}.${inputName}`] ?? categories[inputName];
+      const value = unwrapInputValue(inputValue);
+      if (category !== undefined && typeof value === 'string' && value !== '') {
+        references.push({ nodeId, classType: node.class_type, inputName, category, filename: value });
+      }
+    }
+  }
+  return references;
+}
+
+/**
+ * モデルファイルの参照を置き換え
+ * @param json ワークフローJSON（変更しない）
+ * @param mapping 元のファイル名 → 新しいファイル名、または参照ごとに新しいファイル名を返す関数
+ * @param options 入力とモデルの種類の対応の追加
+ */
+export function remapAssetsJson(
+  json: ComfyWorkflowJson,
+  mapping: AssetMapping,
+  options: AssetOptions = {}
+): RemapAssetsResult {
+  const result: ComfyWorkflowJson = JSON.parse(JSON.stringify(json));
+  const remapped: AssetReference[] = [];
+  for (const reference of getAssetReferences(json, options)) {
+    const filename =
+      typeof mapping === 'function'
+        ? mapping(reference)
+        : Object.prototype.hasOwnProperty.call(mapping, reference.filename)
+          ? mapping[reference.filename]
+          : undefined;
+    if (filename !== undefined && filename !== reference.filename) {
+      result[reference.nodeId].inputs[reference.inputName] = filename;
+      remapped.push(reference);
+    }
+  }
+  return { json: result, remapped };
+}
+
+/**
+ * 参照しているモデルファイルがローカルのComfyUIの models/ ディレクトリにあるか確認（Node.jsのみ）
+ * @param json ワークフローJSON
+ * @param modelsDir ComfyUIの models/ ディレクトリ
+ * @param options 入力とモデルの種類の対応、探すディレクトリの追加
+ */
+export async function checkAssets(
+  json: ComfyWorkflowJson,
+  modelsDir: string,
+  options: CheckAssetsOptions = {}
+): Promise<AssetCheckResult> {
+  // ブラウザ向けのバンドルに含まれないよう、Node.jsのモジュールは実行時に読み込む
+  const { access, readdir } = await import('node:fs/promises');
+  const { join } = await import('node:path');
+  const directories = { ...DEFAULT_DIRECTORIES, ...options.directories };
+  const result: AssetCheckResult = { found: [], missing: [] };
+
+  // ディレクトリ内のファイル一覧（候補の提示用、ディレクトリごとに1回だけ読む）
+  const listings = new Map<string, Promise<string[]>>();
+  const listFiles = (dir: string) => {
+    if (!listings.has(dir)) {
+      listings.set(
+        dir,
+        readdir(join(modelsDir, dir), { recursive: true }).then(
+          files => files.map(file => file.replace(/\\/g, '/')),
+          () => []
+        )
+      );
+    }
+    return listings.get(dir)!;
+  };
+
+  for (const reference of getAssetReferences(json, options)) {
+    const dirs = directories[reference.category] ?? [reference.category];
+    const filename = reference.filename.replace(/\\/g, '/');
+
+    let path: string | undefined;
+    for (const dir of dirs) {
+      const candidate = join(modelsDir, dir, ...filename.split('/'));
+      try {
+        await access(candidate);
+        path = candidate;
+        break;
+      } catch {
+        // 次のディレクトリを探す
+      }
+    }
+    if (path !== undefined) {
+      result.found.push({ ...reference, path });
+      continue;
+    }
+
+    const basename = baseName(filename).toLowerCase();
+    const suggestions: string[] = [];
+    for (const dir of dirs) {
+      for (const file of await listFiles(dir)) {
+        if (baseName(file).toLowerCase() === basename && !suggestions.includes(file)) {
+          suggestions.push(file);
+        }
+      }
+    }
+    result.missing.push({ ...reference, suggestions });
+  }
+
+  return result;
+}
+
+/**
+ * パスのファイル名部分
+ */
+function baseName(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
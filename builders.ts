@@ -0,0 +1,74 @@
+/**
+ * ComfyUI Typed Node Builders (runtime)
+ *
+ * generateNodeBuildersが生成する型付きビルダーの実行時サポート
+ * 出力ポートを番号ではなく名前付きのハンドルとして扱う
+ */
+
+import type { ComfyWorkflow } from './ComfyWorkflow';
+import { AddNodeOptions, InputValue } from './types';
+
+/**
+ * ノードの出力ポート
+ * 型引数は出力の型名で、接続先の入力の型と一致しない場合はコンパイルエラーになる
+ */
+export class NodeOutput<T extends string = string> {
+  constructor(
+    readonly nodeId: string,
+    readonly port: number,
+    readonly type: T
+  ) {}
+}
+
+/** 追加したノードのハンドル（出力名 → 出力ポート） */
+export type NodeHandle<O> = O & {
+  /** 追加したノードのID */
+  readonly id: string;
+};
+
+/** 出力ポートの定義: [ハンドル上の名前, 型名] */
+export type NodeOutputSpec = readonly [name: string, type: string];
+
+/**
+ * ノードを追加し、NodeOutputで指定された入力を接続してハンドルを返す
+ * 生成されたビルダーから呼ばれる。追加と接続は1つの操作として履歴に記録される
+ * @param workflow 追加先のワークフロー
+ * @param classType クラスタイプ
+ * @param inputs 入力値（NodeOutputは接続として扱う）
+ * @param outputs 出力ポートの定義（ポート番号順）
+ * @param options ノード追加オプション
+ */
+export function addTypedNode<O>(
+  workflow: ComfyWorkflow,
+  classType: string,
+  inputs: { [name: string]: InputValue | NodeOutput | undefined },
+  outputs: readonly NodeOutputSpec[],
+  options: AddNodeOptions = {}
+): NodeHandle<O> {
+  const nodeId = workflow.transaction(
+    () => {
+      const values: { [name: string]: InputValue } = {};
+      const connections: [string, NodeOutput][] = [];
+      for (const [name, value] of Object.entries(inputs)) {
+        if (value instanceof NodeOutput) {
+          connections.push([name, value]);
+        } else if (value !== undefined) {
+          values[name] = value;
+        }
+      }
+
+      const id = workflow.addNode(classType, values, options);
+      for (const [name, output] of connections) {
+        workflow.addEdge(output.nodeId, output.port, id, name);
+      }
+      return id;
+    },
+    { label: 'addNode', validate: false }
+  );
+
+  const handle: { [name: string]: unknown } = { id: nodeId };
+  outputs.forEach(([name, type], port) => {
+    handle[name] = new NodeOutput(nodeId, port, type);
+  });
+  return handle as NodeHandle<O>;
+}
@@ -0,0 +1,188 @@
+/**
+ * ComfyUI Workflow Bypass / Mute
+ *
+ * ComfyUIエディタのバイパス（入力をそのまま下流に渡す）とミュート（ノードと下流を実行しない）を
+ * API形式のワークフロー上で再現する。どちらも記録を使って元に戻せる
+ */
+
+import { ComfyWorkflowJson, NodeConnection, isNodeConnection } from './types';
+import { InputSchema, NodeSchemaRegistry, isTypeCompatible } from './schema';
+import { getDescendants } from './graph';
+
+/** 張り替え・削除した下流の入力 */
+export interface RewiredInput {
+  targetNodeId: string;
+  inputName: string;
+  /** 元の接続（操作したノードへの接続） */
+  previous: NodeConnection;
+  /** 張り替え後の接続（対応する入力がなく削除した場合はundefined） */
+  current?: NodeConnection;
+}
+
+/** バイパス・ミュートで変更した内容（restoreNodeJsonで元に戻せる） */
+export interface BypassRecord {
+  kind: 'bypass' | 'mute';
+  /** 操作したノードID */
+  nodeId: string;
+  /** 削除したノード（ノードID → ノード） */
+  removedNodes: ComfyWorkflowJson;
+  /** 張り替え・削除した下流の入力 */
+  rewired: RewiredInput[];
+}
+
+/** バイパス・ミュートの結果 */
+export interface BypassJsonResult {
+  json: ComfyWorkflowJson;
+  record: BypassRecord;
+}
+
+/**
+ * ノードをバイパス
+ * ノードを削除し、各出力の接続先を、同じ型の入力の接続元に張り替える
+ * 対応する入力がない接続先の入力は削除する
+ *
+ * 出力と入力の対応:
+ * - スキーマにノード定義がある場合: 同じ位置の入力の型が出力と合えばそれを、なければ最初に型の合う入力を使う
+ * - ない場合: 接続先と同じ名前の入力を、なければ同じ位置の接続済みの入力を使う
+ *
+ * @param json ワークフローJSON（変更しない）
+ * @param nodeId バイパスするノードID
+ * @param schema ノードスキーマ（オプション）
+ * @throws ノードが存在しない場合
+ */
+export function bypassNodeJson(json: ComfyWorkflowJson, nodeId: string, schema?: NodeSchemaRegistry): BypassJsonResult {
+  const node = json[nodeId];
+  if (!node) {
+    throw new Error(`Node "${nodeId}" does not exist`);
+  }
+
+  const result = clone(json);
+  const rewired: RewiredInput[] = [];
+  delete result[nodeId];
+
+  for (const [targetNodeId, target] of Object.entries(result)) {
+    for (const [inputName, value] of Object.entries(target.inputs)) {
+      if (!isNodeConnection(value) || value[0] !== nodeId) continue;
+
+      const passThrough = findPassThroughInput(json, nodeId, value[1], inputName, schema);
+      const source = passThrough === undefined ? undefined : node.inputs[passThrough];
+      if (isNodeConnection(source)) {
+        target.inputs[inputName] = [source[0], source[1]];
+        rewired.push({ targetNodeId, inputName, previous: value, current: [source[0], source[1]] });
+      } else {
+        delete target.inputs[inputName];
+        rewired.push({ targetNodeId, inputName, previous: value });
+      }
+    }
+  }
+
+  return { json: result, record: { kind: 'bypass', nodeId, removedNodes: { [nodeId]: clone(node) }, rewired } };
+}
+
+/**
+ * ノードをミュート
+ * ノードとその下流のノード（ノードの出力がないと実行できないノード）をすべて削除する
+ * @param json ワークフローJSON（変更しない）
+ * @param nodeId ミュートするノードID
+ * @throws ノードが存在しない場合
+ */
+export function muteNodeJson(json: ComfyWorkflowJson, nodeId: string): BypassJsonResult {
+  if (!json[nodeId]) {
+    throw new Error(`Node "${nodeId}" does not exist`);
+  }
+
+  const result = clone(json);
+  const removedNodes: ComfyWorkflowJson = {};
+  for (const id of [nodeId, ...getDescendants(json, nodeId)]) {
+    removedNodes[id] = result[id];
+    delete result[id];
+  }
+
+  return { json: result, record: { kind: 'mute', nodeId, removedNodes, rewired: [] } };
+}
+
+/**
+ * バイパス・ミュートを元に戻す
+ * 削除したノードを同じIDで戻し、その後変更されていない下流の入力を元の接続に戻す
+ * @param json ワークフローJSON（変更しない）
+ * @param record bypassNodeJson・muteNodeJsonの記録
+ * @throws ノードIDが既に使われている場合、戻すノードの接続元が存在しない場合
+ */
+export function restoreNodeJson(json: ComfyWorkflowJson, record: BypassRecord): ComfyWorkflowJson {
+  const result = clone(json);
+  for (const [nodeId, node] of Object.entries(record.removedNodes)) {
+    if (result[nodeId]) {
+      throw new Error(`Cannot restore node "${nodeId}": the ID is already in use`);
+    }
+    result[nodeId] = clone(node);
+  }
+
+  for (const [nodeId, node] of Object.entries(record.removedNodes)) {
+    for (const [inputName, value] of Object.entries(node.inputs)) {
+      if (isNodeConnection(value) && !result[value[0]]) {
+        throw new Error(
+          `Cannot restore node "${nodeId}": input "${inputName}" references non-existent node "${value[0]}"`
+        );
+      }
+    }
+  }
+
+  for (const { targetNodeId, inputName, previous, current } of record.rewired) {
+    const target = result[targetNodeId];
+    if (!target) continue;
+    const value = target.inputs[inputName];
+    const unchanged =
+      current === undefined
+        ? value === undefined
+        : isNodeConnection(value) && value[0] === current[0] && value[1] === current[1];
+    if (unchanged) {
+      target.inputs[inputName] = [previous[0], previous[1]];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * バイパス時に出力ポートの代わりに使う入力名
+ * @param json ワークフローJSON
+ * @param nodeId バイパスするノードID
+ * @param port 出力ポート
+ * @param targetInputName 接続先の入力名（スキーマがない場合の対応付けに使う）
+ * @param schema ノードスキーマ（オプション）
+ * @returns 対応する入力がない場合はundefined
+ */
+export function findPassThroughInput(
+  json: ComfyWorkflowJson,
+  nodeId: string,
+  port: number,
+  targetInputName: string,
+  schema?: NodeSchemaRegistry
+): string | undefined {
+  const node = json[nodeId];
+  if (!node) return undefined;
+  const connected = Object.keys(node.inputs).filter(name => isNodeConnection(node.inputs[name]));
+
+  const nodeSchema = schema?.get(node.class_type);
+  if (nodeSchema) {
+    const outputType = nodeSchema.outputs[port]?.type;
+    if (outputType === undefined) return undefined;
+
+    // エディタと同様に、接続用の入力（ウィジェット以外）の位置で対応付ける
+    const slots = nodeSchema.inputs.filter(input => !input.isWidget);
+    const usable = (input: InputSchema | undefined): input is InputSchema =>
+      input !== undefined && connected.includes(input.name) && isTypeCompatible(outputType, input.type);
+    if (usable(slots[port])) return slots[port].name;
+    return slots.find(usable)?.name;
+  }
+
+  const sameName = connected.find(name => name.toLowerCase() === targetInputName.toLowerCase());
+  return sameName ?? connected[port];
+}
+
+/**
+ * JSON値のディープコピー
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
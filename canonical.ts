@@ -0,0 +1,147 @@
+/**
+ * ComfyUI Workflow Canonicalization
+ *
+ * ノードIDやキーの順序に依存しない正規形を作成する
+ * 意味的に同じワークフローは同じJSON文字列・同じハッシュになる
+ */
+
+import { ComfyNode, ComfyWorkflowJson, isNodeConnection, normalizeInputValue } from './types';
+import { buildAdjacency, compareNodeIds, hasNode, topologicalSort } from './graph';
+
+/** canonicalizeWorkflowJsonの結果 */
+export interface CanonicalizeResult {
+  json: ComfyWorkflowJson;
+  /** 元のノードID → 新しいノードID */
+  idMap: { [oldNodeId: string]: string };
+}
+
+/**
+ * ワークフローJSONを正規化
+ * - ノードIDをトポロジカル順に1から振り直し、接続も書き換える
+ * - 同時に実行可能なノードは上流・下流の構造から決まる順に並べる（元のIDには依存しない）
+ * - 入力のキー（ネストしたオブジェクトも含む）を名前順に並べる
+ * - リテラル値のラップを外す（接続と同じ形の値などはラップしたまま、normalizeInputValueを参照）
+ * @param json ワークフローJSON
+ * @throws 循環がある場合、存在しないノードへの接続がある場合（振り直したIDと衝突するため）
+ */
+export function canonicalizeWorkflowJson(json: ComfyWorkflowJson): CanonicalizeResult {
+  for (const [nodeId, node] of Object.entries(json)) {
+    for (const [inputName, value] of Object.entries(node.inputs)) {
+      if (isNodeConnection(value) && !hasNode(json, value[0])) {
+        throw new Error(`Node "${nodeId}" input "${inputName}" references non-existent node "${value[0]}"`);
+      }
+    }
+  }
+
+  const rank = structuralRank(json);
+  const order = topologicalSort(json, (a, b) => {
+    const rankA = rank.get(a)!;
+    const rankB = rank.get(b)!;
+    return rankA < rankB ? -1 : rankA > rankB ? 1 : compareNodeIds(a, b);
+  });
+
+  const idMap: { [oldNodeId: string]: string } = {};
+  order.forEach((nodeId, i) => {
+    idMap[nodeId] = String(i + 1);
+  });
+
+  const canonical: ComfyWorkflowJson = {};
+  for (const nodeId of order) {
+    const node = json[nodeId];
+    const inputs: ComfyNode['inputs'] = {};
+    for (const name of Object.keys(node.inputs).sort()) {
+      const value = node.inputs[name];
+      inputs[name] = isNodeConnection(value) ? [idMap[value[0]], value[1]] : sortKeys(normalizeInputValue(value));
+    }
+
+    const canonicalNode: ComfyNode = { inputs, class_type: node.class_type };
+    if (node._meta !== undefined) {
+      canonicalNode._meta = sortKeys(node._meta);
+    }
+    canonical[idMap[nodeId]] = canonicalNode;
+  }
+
+  return { json: canonical, idMap };
+}
+
+/**
+ * ワークフローの内容ハッシュ（正規形のJSON文字列のFNV-1a 64bitハッシュ）
+ * ノードIDやキーの順序が異なっても、意味的に同じワークフローは同じ値になる
+ * @param json ワークフローJSON
+ * @returns 16桁の16進文字列
+ * @throws 循環がある場合、存在しないノードへの接続がある場合
+ */
+export function computeContentHash(json: ComfyWorkflowJson): string {
+  return hashString(JSON.stringify(canonicalizeWorkflowJson(json).json));
+}
+
+/**
+ * 文字列のFNV-1a 64bitハッシュ
+ * @returns 16桁の16進文字列
+ */
+export function hashString(text: string): string {
+  const prime = 0x100000001b3n;
+  const mask = 0xffffffffffffffffn;
+  let hash = 0xcbf29ce484222325n;
+  for (const byte of new TextEncoder().encode(text)) {
+    hash ^= BigInt(byte);
+    hash = (hash * prime) & mask;
+  }
+  return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * ノードIDに依存しない並び順のキー（上流と下流の構造のハッシュ）
+ */
+function structuralRank(json: ComfyWorkflowJson): Map<string, string> {
+  const order = topologicalSort(json);
+
+  // 上流: class_type・入力値・_meta・接続元の上流ハッシュ
+  const upstream = new Map<string, string>();
+  for (const nodeId of order) {
+    const node = json[nodeId];
+    const inputs = Object.keys(node.inputs)
+      .sort()
+      .map(name => {
+        const value = node.inputs[name];
+        return isNodeConnection(value)
+          ? [name, upstream.get(value[0]) ?? 'missing', value[1]]
+          : [name, sortKeys(normalizeInputValue(value))];
+      });
+    upstream.set(nodeId, hashString(JSON.stringify([node.class_type, inputs, sortKeys(node._meta ?? null)])));
+  }
+
+  // 下流: 接続先の入力名・ポート・下流ハッシュ
+  const adjacency = buildAdjacency(json);
+  const downstream = new Map<string, string>();
+  for (const nodeId of [...order].reverse()) {
+    const targets: string[] = [];
+    for (const targetId of adjacency.get(nodeId)!) {
+      for (const [name, value] of Object.entries(json[targetId].inputs)) {
+        if (isNodeConnection(value) && value[0] === nodeId) {
+          targets.push(JSON.stringify([name, value[1], downstream.get(targetId)]));
+        }
+      }
+    }
+    downstream.set(nodeId, hashString(JSON.stringify([json[nodeId].class_type, targets.sort()])));
+  }
+
+  return new Map(order.map(nodeId => [nodeId, `${upstream.get(nodeId)}${downstream.get(nodeId)}`]));
+}
+
+/**
+ * オブジェクトのキーを再帰的に名前順に並べる
+ */
+export function sortKeys<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys) as T;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  const sorted: Record<string, unknown> = {};
+  for (const key of Object.keys(value).sort()) {
+    sorted[key] = sortKeys((value as Record<string, unknown>)[key]);
+  }
+  return sorted as T;
+}
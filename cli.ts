@@ -0,0 +1,414 @@
+/**
+ * comfy-graph CLI
+ *
+ * ワークフローJSONの検証・比較・整形・変換をコマンドラインから行う
+ *
+ * 使い方:
+ *   npx tsx cli.ts validate workflow.json --schema object_info.json
+ *   npx tsx cli.ts diff a.json b.json --json
+ *   npx tsx cli.ts fmt workflow.json --check
+ *   npx tsx cli.ts prune workflow.json -o pruned.json
+ *   npx tsx cli.ts convert workflow.json --to ui --schema object_info.json
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { ComfyWorkflow } from './ComfyWorkflow';
+import { ComfyNode, ComfyWorkflowJson, isComfyWorkflowJson } from './types';
+import { NodeSchemaRegistry } from './schema';
+import { ValidationError, validateWorkflow } from './validators';
+import { isUiWorkflowJson } from './uiFormat';
+import { compareNodeIds } from './graph';
+import { canonicalizeWorkflowJson } from './canonical';
+
+/** CLIの入出力（テスト時に差し替えられる） */
+export interface CliIo {
+  readFile(path: string): string;
+  writeFile(path: string, content: string): void;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+/** 終了コード */
+export const EXIT_CODES = {
+  /** 成功 */
+  OK: 0,
+  /** 検証エラー（validateで構造が不正な場合、pruneで出力ノードがない場合を含む）・差分あり・未整形 */
+  FAILURE: 1,
+  /** 引数やファイルの誤り */
+  USAGE: 2,
+} as const;
+
+/** コマンドライン引数の解析結果 */
+interface ParsedArgs {
+  positionals: string[];
+  flags: Set<string>;
+  values: { [name: string]: string };
+}
+
+/** 値を取るオプション（短縮形は正式名に変換する） */
+const VALUE_OPTIONS: { [name: string]: string } = {
+  '--schema': '--schema',
+  '--output': '--output',
+  '-o': '--output',
+  '--to': '--to',
+  '--indent': '--indent',
+  '--output-types': '--output-types',
+};
+
+/** 値を取らないオプション */
+const FLAG_OPTIONS: { [name: string]: string } = {
+  '--json': '--json',
+  '--check': '--check',
+  '--canonical': '--canonical',
+  '--write': '--write',
+  '-w': '--write',
+  '--help': '--help',
+  '-h': '--help',
+};
+
+const USAGE = `Usage: comfy-graph <command> [options]
+
+Commands:
+  validate <file>          Validate a workflow (exit 1 on errors)
+  diff <a> <b>             Show structural differences (exit 1 if different)
+  fmt <file>               Print the workflow as canonical JSON
+  prune <file>             Remove nodes that do not contribute to any output node
+                           (exit 1 if there is no output node)
+  convert <file> --to <api|ui>
+                           Convert between API and UI format
+
+Options:
+  --schema <path>          object_info JSON used for schema checks and UI conversion
+  --json                   Machine-readable output (validate, diff, fmt --check)
+  -o, --output <path>      Write the workflow to a file instead of stdout
+  -w, --write              fmt: rewrite the file in place
+  --check                  fmt: exit 1 if the file is not formatted
+  --canonical              fmt: also renumber node IDs in topological order
+  --indent <n>             Indentation of written JSON (default: 2)
+  --output-types <a,b>     prune: class types treated as output nodes
+  -h, --help               Show this help
+`;
+
+/**
+ * 引数の誤りを表すエラー
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * CLIを実行
+ * @param argv コマンドライン引数（コマンド名以降）
+ * @param io 入出力（省略時はファイルシステムと標準出力）
+ * @returns 終了コード
+ */
+export function runCli(argv: string[], io: CliIo = nodeIo): number {
+  try {
+    const args = parseArgs(argv);
+    const [command, ...positionals] = args.positionals;
+    if (!command || args.flags.has('--help')) {
+      io.stdout(USAGE);
+      return args.flags.has('--help') ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+    }
+
+    const context = { ...args, positionals, io };
+    switch (command) {
+      case 'validate':
+        return runValidate(context);
+      case 'diff':
+        return runDiff(context);
+      case 'fmt':
+        return runFmt(context);
+      case 'prune':
+        return runPrune(context);
+      case 'convert':
+        return runConvert(context);
+      default:
+        throw new UsageError(`Unknown command "${command}"`);
+    }
+  } catch (e) {
+    io.stderr(`comfy-graph: ${e instanceof Error ? e.message : String(e)}\n`);
+    if (e instanceof UsageError) {
+      io.stderr(`Run "comfy-graph --help" for usage.\n`);
+    }
+    return EXIT_CODES.USAGE;
+  }
+}
+
+/** サブコマンドの実行コンテキスト */
+type CommandContext = ParsedArgs & { io: CliIo };
+
+/**
+ * validate: validateWorkflowを実行
+ * 構造が不正なワークフローも検証エラー（終了コード1）として構造のエラーを表示する
+ */
+function runValidate(context: CommandContext): number {
+  const [file] = requirePositionals(context, 1, 'validate <file>');
+  const schema = loadSchema(context);
+  const parsed = parseJson(readInput(context, file), file);
+  const json = isUiWorkflowJson(parsed) ? ComfyWorkflow.fromUiJson(parsed, { schema }).toJson() : parsed;
+  const result = validateWorkflow(json, { schema });
+
+  if (context.flags.has('--json')) {
+    context.io.stdout(`${JSON.stringify({ file, ...result }, null, 2)}\n`);
+  } else {
+    const lines = [...result.errors, ...result.warnings].map(formatValidationError);
+    lines.push(
+      `${file}: ${result.valid ? 'valid' : 'invalid'} (${result.errors.length} errors, ${result.warnings.length} warnings)`
+    );
+    context.io.stdout(`${lines.join('\n')}\n`);
+  }
+  return result.valid ? EXIT_CODES.OK : EXIT_CODES.FAILURE;
+}
+
+/**
+ * diff: getStructuralDiffを表示
+ */
+function runDiff(context: CommandContext): number {
+  const [fileA, fileB] = requirePositionals(context, 2, 'diff <a> <b>');
+  const schema = loadSchema(context);
+  const a = loadWorkflow(context, fileA, schema);
+  const b = loadWorkflow(context, fileB, schema);
+  // bを基準にaとの違いを報告する（expectedがb、actualがa）
+  const diffs = a.getStructuralDiff(b);
+
+  if (context.flags.has('--json')) {
+    context.io.stdout(`${JSON.stringify({ equivalent: diffs.length === 0, diffs }, null, 2)}\n`);
+  } else if (diffs.length === 0) {
+    context.io.stdout(`${fileA} and ${fileB} are structurally equivalent\n`);
+  } else {
+    const lines = diffs.map(diff => `  ${diff.type}: ${diff.details}`);
+    context.io.stdout(`${diffs.length} difference(s) between ${fileA} and ${fileB}:\n${lines.join('\n')}\n`);
+  }
+  return diffs.length === 0 ? EXIT_CODES.OK : EXIT_CODES.FAILURE;
+}
+
+/**
+ * fmt: 正規化したJSONを出力
+ */
+function runFmt(context: CommandContext): number {
+  const [file] = requirePositionals(context, 1, 'fmt <file>');
+  const source = readInput(context, file);
+  const workflow = parseWorkflow(source, file, loadSchema(context));
+  if (workflow.isUi) {
+    throw new Error(`"${file}" is a UI-format workflow; fmt only formats API-format JSON (use convert --to api)`);
+  }
+  const json = workflow.workflow.toJson();
+  const sorted = context.flags.has('--canonical') ? canonicalizeWorkflowJson(json).json : sortWorkflowJson(json);
+  const formatted = formatJson(sorted, context);
+
+  if (context.flags.has('--check')) {
+    const isFormatted = source === formatted;
+    if (context.flags.has('--json')) {
+      context.io.stdout(`${JSON.stringify({ file, formatted: isFormatted })}\n`);
+    } else if (!isFormatted) {
+      context.io.stdout(`${file}: not formatted\n`);
+    }
+    return isFormatted ? EXIT_CODES.OK : EXIT_CODES.FAILURE;
+  }
+
+  if (context.flags.has('--write')) {
+    if (source !== formatted) {
+      context.io.writeFile(file, formatted);
+    }
+    return EXIT_CODES.OK;
+  }
+  writeOutput(context, formatted);
+  return EXIT_CODES.OK;
+}
+
+/**
+ * prune: 出力ノードに寄与しないノードを削除
+ */
+function runPrune(context: CommandContext): number {
+  const [file] = requirePositionals(context, 1, 'prune <file>');
+  const schema = loadSchema(context);
+  const workflow = loadWorkflow(context, file, schema);
+  const outputTypes = context.values['--output-types'];
+  const options = outputTypes ? { outputNodeTypes: outputTypes.split(',') } : {};
+
+  // 出力ノードがないのは引数の誤りではなくワークフローの問題
+  if (workflow.getOutputNodes(options).length === 0) {
+    context.io.stderr('comfy-graph: Workflow has no output nodes to prune towards\n');
+    return EXIT_CODES.FAILURE;
+  }
+  const removed = workflow.prune(options);
+
+  writeOutput(context, formatJson(workflow.toJson(), context));
+  context.io.stderr(`Removed ${removed.length} node(s)${removed.length > 0 ? `: ${removed.join(', ')}` : ''}\n`);
+  return EXIT_CODES.OK;
+}
+
+/**
+ * convert: API形式とUI形式を相互に変換
+ */
+function runConvert(context: CommandContext): number {
+  const [file] = requirePositionals(context, 1, 'convert <file> --to <api|ui>');
+  const to = context.values['--to'];
+  if (to !== 'api' && to !== 'ui') {
+    throw new UsageError('convert requires --to api or --to ui');
+  }
+  const workflow = loadWorkflow(context, file, loadSchema(context));
+  writeOutput(context, formatJson(to === 'ui' ? workflow.toUiJson() : workflow.toJson(), context));
+  return EXIT_CODES.OK;
+}
+
+/**
+ * コマンドライン引数を解析
+ */
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { positionals: [], flags: new Set(), values: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    // --name=value 形式にも対応する
+    const separator = arg.startsWith('--') ? arg.indexOf('=') : -1;
+    const name = separator >= 0 ? arg.slice(0, separator) : arg;
+    const inlineValue = separator >= 0 ? arg.slice(separator + 1) : undefined;
+
+    if (VALUE_OPTIONS[name]) {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined) {
+        throw new UsageError(`Option ${name} requires a value`);
+      }
+      parsed.values[VALUE_OPTIONS[name]] = value;
+    } else if (FLAG_OPTIONS[name] && inlineValue === undefined) {
+      parsed.flags.add(FLAG_OPTIONS[name]);
+    } else if (arg.startsWith('-') && arg !== '-') {
+      throw new UsageError(`Unknown option "${arg}"`);
+    } else {
+      parsed.positionals.push(arg);
+    }
+  }
+  return parsed;
+}
+
+/**
+ * 必要な数の位置引数を取得
+ */
+function requirePositionals(context: CommandContext, count: number, usage: string): string[] {
+  if (context.positionals.length !== count) {
+    throw new UsageError(`Usage: comfy-graph ${usage}`);
+  }
+  return context.positionals;
+}
+
+/**
+ * 入力ファイルを読み込む（"-" は標準入力）
+ */
+function readInput(context: CommandContext, file: string): string {
+  try {
+    return context.io.readFile(file === '-' ? '/dev/stdin' : file);
+  } catch (e) {
+    throw new Error(`Cannot read "${file}": ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+/**
+ * --schemaで指定されたobject_infoを読み込む
+ */
+function loadSchema(context: CommandContext): NodeSchemaRegistry | undefined {
+  const path = context.values['--schema'];
+  return path === undefined ? undefined : NodeSchemaRegistry.fromObjectInfo(readInput(context, path));
+}
+
+/**
+ * ワークフローを読み込む（API形式・UI形式のどちらも受け付ける）
+ */
+function loadWorkflow(context: CommandContext, file: string, schema: NodeSchemaRegistry | undefined): ComfyWorkflow {
+  return parseWorkflow(readInput(context, file), file, schema).workflow;
+}
+
+/**
+ * JSON文字列をワークフローとして解析
+ */
+function parseWorkflow(
+  source: string,
+  file: string,
+  schema: NodeSchemaRegistry | undefined
+): { workflow: ComfyWorkflow; isUi: boolean } {
+  const parsed = parseJson(source, file);
+  if (isUiWorkflowJson(parsed)) {
+    return { workflow: ComfyWorkflow.fromUiJson(parsed, { schema }), isUi: true };
+  }
+  if (!isComfyWorkflowJson(parsed)) {
+    throw new Error(`"${file}" is neither an API-format nor a UI-format workflow`);
+  }
+  return { workflow: ComfyWorkflow.fromJson(parsed, { schema }), isUi: false };
+}
+
+/**
+ * JSON文字列を解析
+ * @throws JSONとして不正な場合
+ */
+function parseJson(source: string, file: string): unknown {
+  try {
+    return JSON.parse(source);
+  } catch {
+    throw new Error(`"${file}" is not valid JSON`);
+  }
+}
+
+/**
+ * ノードをID順、各ノードのキーを固定順、入力を名前順に並べる
+ */
+function sortWorkflowJson(json: ComfyWorkflowJson): ComfyWorkflowJson {
+  const sorted: ComfyWorkflowJson = {};
+  for (const nodeId of Object.keys(json).sort(compareNodeIds)) {
+    const node = json[nodeId];
+    const inputs: ComfyNode['inputs'] = {};
+    for (const name of Object.keys(node.inputs).sort()) {
+      inputs[name] = node.inputs[name];
+    }
+    sorted[nodeId] = { inputs, class_type: node.class_type };
+    if (node._meta !== undefined) {
+      sorted[nodeId]._meta = node._meta;
+    }
+  }
+  return sorted;
+}
+
+/**
+ * JSONを文字列化（末尾に改行を付ける）
+ */
+function formatJson(value: unknown, context: CommandContext): string {
+  const indent = context.values['--indent'] === undefined ? 2 : Number(context.values['--indent']);
+  if (!Number.isInteger(indent) || indent < 0) {
+    throw new UsageError(`Invalid --indent "${context.values['--indent']}"`);
+  }
+  return `${JSON.stringify(value, null, indent)}\n`;
+}
+
+/**
+ * 結果を--outputのファイルまたは標準出力に書き出す
+ */
+function writeOutput(context: CommandContext, content: string): void {
+  const path = context.values['--output'];
+  if (path === undefined) {
+    context.io.stdout(content);
+  } else {
+    context.io.writeFile(path, content);
+  }
+}
+
+/**
+ * バリデーションエラーを1行で表示
+ */
+function formatValidationError(error: ValidationError): string {
+  return `${error.severity}: ${error.message}`;
+}
+
+/** Node.jsの標準入出力 */
+const nodeIo: CliIo = {
+  readFile: path => readFileSync(path, 'utf-8'),
+  writeFile: (path, content) => writeFileSync(path, content),
+  stdout: text => process.stdout.write(text),
+  stderr: text => process.stderr.write(text),
+};
+
+// メイン実行
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith('cli.ts')) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
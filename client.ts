@@ -0,0 +1,598 @@
+/**
+ * ComfyUI Server Client
+ *
+ * ComfyUIサーバーにワークフローを送信し、WebSocketで実行状況を受け取る
+ * fetchとWebSocketは差し替え可能（テスト用の偽サーバーやwsパッケージを使える）
+ */
+
+import type { ComfyWorkflow } from './ComfyWorkflow';
+import { ComfyWorkflowJson } from './types';
+import { ObjectInfoJson } from './schema';
+import { ValidationError } from './validators';
+import { parseExecutionError, parsePromptErrors } from './serverErrors';
+
+/** fetch互換の関数 */
+export type FetchLike = (
+  url: string,
+  init?: { method?: string; headers?: { [name: string]: string }; body?: string }
+) => Promise<FetchResponseLike>;
+
+/** fetchのレスポンスのうち使用する部分 */
+export interface FetchResponseLike {
+  ok: boolean;
+  status: number;
+  text(): Promise<string>;
+  arrayBuffer(): Promise<ArrayBuffer>;
+}
+
+/** WebSocketのうち使用する部分 */
+export interface WebSocketLike {
+  addEventListener(type: 'open' | 'close' | 'error' | 'message', listener: (event: { data?: unknown }) => void): void;
+  close(): void;
+}
+
+/** ComfyClientのオプション */
+export interface ComfyClientOptions {
+  /** サーバーのURL（デフォルト: 'http://127.0.0.1:8188'） */
+  baseUrl?: string;
+  /** WebSocketの識別子（デフォルト: ランダムなUUID） */
+  clientId?: string;
+  /** fetchの実装（デフォルト: グローバルのfetch） */
+  fetch?: FetchLike;
+  /** WebSocketを作成する関数（デフォルト: グローバルのWebSocket） */
+  createWebSocket?: (url: string) => WebSocketLike;
+}
+
+/** 出力ファイル（画像など）の情報 */
+export interface ComfyOutputFile {
+  filename: string;
+  subfolder: string;
+  /** 'output' | 'temp' | 'input' */
+  type: string;
+}
+
+/** ノードの出力 */
+export interface ComfyNodeOutput {
+  images?: ComfyOutputFile[];
+  [key: string]: unknown;
+}
+
+/** queuePromptの結果 */
+export interface QueuePromptResult {
+  promptId: string;
+  /** キュー内の番号 */
+  number: number;
+  /** 検証に失敗した出力のエラー（他の出力が有効ならプロンプトはキューに追加される） */
+  nodeErrors: ValidationError[];
+}
+
+/** /history の1プロンプト分 */
+export interface ComfyHistoryEntry {
+  /** ノードID → 出力 */
+  outputs: { [nodeId: string]: ComfyNodeOutput };
+  status?: { status_str?: string; completed?: boolean; messages?: unknown[] };
+  [key: string]: unknown;
+}
+
+/** runの結果 */
+export interface ComfyRunResult {
+  promptId: string;
+  /** ノードID → 出力 */
+  outputs: { [nodeId: string]: ComfyNodeOutput };
+}
+
+/** runのオプション */
+export interface ComfyRunOptions {
+  /** trueならキューの先頭に追加 */
+  front?: boolean;
+  /** 中断するとキューから削除、実行中なら割り込みで停止する */
+  signal?: AbortSignal;
+}
+
+/** 実行エラーの詳細（execution_errorイベント） */
+export interface ComfyExecutionErrorDetails {
+  promptId: string;
+  /** サーバーがノードを通知しなかった場合はundefined */
+  nodeId: string | undefined;
+  nodeType: string;
+  exceptionType: string;
+  exceptionMessage: string;
+  traceback: string[];
+}
+
+/** ComfyClientのイベントと引数 */
+export interface ComfyClientEventMap {
+  /** キューの状態 */
+  status: { queueRemaining: number };
+  execution_start: { promptId: string };
+  /** キャッシュにより実行を省略したノード */
+  execution_cached: { promptId: string; nodeIds: string[] };
+  /** ノードの実行開始（nodeIdがnullならプロンプトの実行完了） */
+  executing: { promptId: string; nodeId: string | null };
+  /** ノード内の進捗（サンプラーのステップなど） */
+  progress: { promptId: string; nodeId: string | undefined; value: number; max: number };
+  /** ノードの出力 */
+  executed: { promptId: string; nodeId: string; output: ComfyNodeOutput };
+  execution_error: ComfyExecutionErrorDetails;
+  execution_interrupted: { promptId: string; nodeId: string | undefined };
+  execution_success: { promptId: string };
+  /** 受信したすべてのメッセージ（カスタムノードのメッセージも含む） */
+  message: { type: string; data: unknown };
+  /** WebSocketの切断 */
+  disconnect: {};
+}
+
+/** イベントリスナー */
+export type ComfyClientListener<K extends keyof ComfyClientEventMap> = (event: ComfyClientEventMap[K]) => void;
+
+/**
+ * サーバーとの通信の失敗を表すエラー
+ */
+export class ComfyClientError extends Error {
+  constructor(
+    message: string,
+    /** HTTPステータス */
+    readonly status?: number,
+    /** レスポンスの本文（JSONならパース済み） */
+    readonly body?: unknown
+  ) {
+    super(message);
+    this.name = 'ComfyClientError';
+  }
+}
+
+/**
+ * サーバーがプロンプトを拒否したことを表すエラー（/promptのerror・node_errors）
+ */
+export class ComfyPromptError extends ComfyClientError {
+  constructor(
+    status: number,
+    body: unknown,
+    /** ノードごとのエラー（validateWorkflowと同じ形式） */
+    readonly errors: ValidationError[]
+  ) {
+    super(`Prompt was rejected: ${errors.map(e => e.message).join('; ')}`, status, body);
+    this.name = 'ComfyPromptError';
+  }
+}
+
+/**
+ * ワークフローの実行中に発生したエラー（execution_error）
+ */
+export class ComfyExecutionError extends Error {
+  /** validateWorkflowと同じ形式のエラー */
+  readonly errors: ValidationError[];
+
+  constructor(readonly details: ComfyExecutionErrorDetails) {
+    const error = parseExecutionError(details);
+    super(error.message);
+    this.name = 'ComfyExecutionError';
+    this.errors = [error];
+  }
+}
+
+/**
+ * ComfyUIサーバーのクライアント
+ *
+ * @example
+ * ```typescript
+ * const client = new ComfyClient({ baseUrl: 'http://127.0.0.1:8188' });
+ * client.on('progress', e => console.log(`${e.nodeId}: ${e.value}/${e.max}`));
+ * const result = await client.run(workflow);
+ * const image = await client.getImage(result.outputs['9'].images![0]);
+ * client.close();
+ * ```
+ */
+export class ComfyClient {
+  readonly baseUrl: string;
+  readonly clientId: string;
+  private fetch: FetchLike;
+  private createWebSocket: (url: string) => WebSocketLike;
+  private socket?: WebSocketLike;
+  private connecting?: Promise<void>;
+  private listeners: { [K in keyof ComfyClientEventMap]?: Set<ComfyClientListener<K>> } = {};
+  /** 実行中のプロンプトID */
+  private runningPromptId?: string;
+
+  /**
+   * @param options オプション
+   */
+  constructor(options: ComfyClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? 'http://127.0.0.1:8188').replace(/\/+$/, '');
+    this.clientId = options.clientId ?? createClientId();
+    this.fetch = options.fetch ?? ((url, init) => globalThis.fetch(url, init));
+    this.createWebSocket =
+      options.createWebSocket ??
+      (url => {
+        if (typeof globalThis.WebSocket !== 'function') {
+          throw new ComfyClientError('WebSocket is not available; pass the createWebSocket option');
+        }
+        return new globalThis.WebSocket(url);
+      });
+  }
+
+  // ============================================
+  // イベント
+  // ============================================
+
+  /**
+   * イベントリスナーを登録
+   * @returns 登録を解除する関数
+   */
+  on<K extends keyof ComfyClientEventMap>(type: K, listener: ComfyClientListener<K>): () => void {
+    const listeners: Set<ComfyClientListener<K>> = this.listeners[type] ?? new Set();
+    this.listeners[type] = listeners as ComfyClient['listeners'][K];
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private emit<K extends keyof ComfyClientEventMap>(type: K, event: ComfyClientEventMap[K]): void {
+    const listeners: Set<ComfyClientListener<K>> | undefined = this.listeners[type];
+    for (const listener of [...(listeners ?? [])]) {
+      listener(event);
+    }
+  }
+
+  // ============================================
+  // 接続
+  // ============================================
+
+  /**
+   * WebSocketに接続（接続済みなら何もしない）
+   * @throws 接続に失敗した場合
+   */
+  connect(): Promise<void> {
+    if (this.connecting) return this.connecting;
+
+    const url = `${this.baseUrl.replace(/^http/, 'ws')}/ws?clientId=${encodeURIComponent(this.clientId)}`;
+    this.connecting = new Promise<void>((resolve, reject) => {
+      const socket = this.createWebSocket(url);
+      this.socket = socket;
+      let opened = false;
+      socket.addEventListener('open', () => {
+        opened = true;
+        resolve();
+      });
+      socket.addEventListener('error', () => {
+        if (!opened) reject(new ComfyClientError(`Failed to connect to ${url}`));
+      });
+      socket.addEventListener('close', () => {
+        if (!opened) reject(new ComfyClientError(`Failed to connect to ${url}`));
+        if (this.socket === socket) {
+          this.socket = undefined;
+          this.connecting = undefined;
+          this.emit('disconnect', {});
+        }
+      });
+      socket.addEventListener('message', event => this.handleMessage(event.data));
+    });
+    this.connecting.catch(() => {
+      this.connecting = undefined;
+    });
+    return this.connecting;
+  }
+
+  /**
+   * WebSocketを切断
+   */
+  close(): void {
+    const socket = this.socket;
+    this.socket = undefined;
+    this.connecting = undefined;
+    if (socket) {
+      socket.close();
+      this.emit('disconnect', {});
+    }
+  }
+
+  /**
+   * 受信したメッセージをイベントとして通知（バイナリのプレビュー画像は無視する）
+   * 型の合わないフィールドは無視し、必須のフィールドがないメッセージはmessageイベントのみ通知する
+   */
+  private handleMessage(raw: unknown): void {
+    if (typeof raw !== 'string') return;
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    if (!isRecord(message) || typeof message.type !== 'string') return;
+
+    const data = isRecord(message.data) ? message.data : {};
+    this.emit('message', { type: message.type, data: message.data ?? {} });
+
+    if (message.type === 'status') {
+      const execInfo = isRecord(data.status) && isRecord(data.status.exec_info) ? data.status.exec_info : {};
+      this.emit('status', { queueRemaining: asNumber(execInfo.queue_remaining) ?? 0 });
+      return;
+    }
+
+    const promptId = asString(data.prompt_id);
+    if (promptId === undefined) return;
+
+    switch (message.type) {
+      case 'execution_start':
+        this.runningPromptId = promptId;
+        this.emit('execution_start', { promptId });
+        break;
+      case 'execution_cached': {
+        const nodeIds = Array.isArray(data.nodes) ? data.nodes.map(asNodeId) : [];
+        this.emit('execution_cached', { promptId, nodeIds: nodeIds.filter((id): id is string => id !== undefined) });
+        break;
+      }
+      case 'executing': {
+        const nodeId = asNodeId(data.node) ?? null;
+        if (nodeId === null && this.runningPromptId === promptId) {
+          this.runningPromptId = undefined;
+        }
+        this.emit('executing', { promptId, nodeId });
+        break;
+      }
+      case 'progress': {
+        const value = asNumber(data.value);
+        const max = asNumber(data.max);
+        if (value === undefined || max === undefined) break;
+        this.emit('progress', { promptId, nodeId: asNodeId(data.node), value, max });
+        break;
+      }
+      case 'executed': {
+        const nodeId = asNodeId(data.node);
+        if (nodeId === undefined) break;
+        this.emit('executed', { promptId, nodeId, output: isRecord(data.output) ? data.output : {} });
+        break;
+      }
+      case 'execution_error':
+        this.emit('execution_error', {
+          promptId,
+          nodeId: asNodeId(data.node_id),
+          nodeType: asString(data.node_type) ?? '',
+          exceptionType: asString(data.exception_type) ?? '',
+          exceptionMessage: asString(data.exception_message) ?? '',
+          traceback: Array.isArray(data.traceback) ? data.traceback.filter(line => typeof line === 'string') : [],
+        });
+        break;
+      case 'execution_interrupted':
+        this.emit('execution_interrupted', { promptId, nodeId: asNodeId(data.node_id) });
+        break;
+      case 'execution_success':
+        this.emit('execution_success', { promptId });
+        break;
+    }
+  }
+
+  // ============================================
+  // HTTP API
+  // ============================================
+
+  /**
+   * ワークフローをキューに追加（POST /prompt）
+   * @param workflow ワークフローまたはワークフローJSON
+   * @param options front: trueならキューの先頭に追加
+   * @throws ComfyPromptError サーバーがプロンプトを拒否した場合
+   * @throws ComfyClientError それ以外のHTTPの失敗の場合
+   */
+  async queuePrompt(
+    workflow: ComfyWorkflow | ComfyWorkflowJson,
+    options: { front?: boolean } = {}
+  ): Promise<QueuePromptResult> {
+    const prompt = typeof workflow.toJson === 'function' ? (workflow as ComfyWorkflow).toJson() : workflow;
+    const body: { [key: string]: unknown } = { prompt, client_id: this.clientId };
+    if (options.front) body.front = true;
+
+    let result: { prompt_id: string; number: number; node_errors?: unknown };
+    try {
+      result = (await this.request('POST', '/prompt', body)) as typeof result;
+    } catch (e) {
+      if (e instanceof ComfyClientError && e.status === 400 && isPromptErrorBody(e.body)) {
+        throw new ComfyPromptError(e.status, e.body, parsePromptErrors(e.body));
+      }
+      throw e;
+    }
+    return {
+      promptId: result.prompt_id,
+      number: result.number,
+      nodeErrors: parsePromptErrors({ node_errors: result.node_errors }),
+    };
+  }
+
+  /**
+   * プロンプトの履歴を取得（GET /history/{promptId}）
+   * @returns まだ完了していない場合はundefined
+   */
+  async getHistory(promptId: string): Promise<ComfyHistoryEntry | undefined> {
+    const history = (await this.request('GET', `/history/${encodeURIComponent(promptId)}`)) as {
+      [promptId: string]: ComfyHistoryEntry;
+    };
+    return history[promptId];
+  }
+
+  /**
+   * 出力ファイルをダウンロード（GET /view）
+   * @param file executedイベントや履歴の出力に含まれるファイル情報
+   */
+  async getImage(file: ComfyOutputFile): Promise<Uint8Array> {
+    const query = new URLSearchParams({ filename: file.filename, subfolder: file.subfolder, type: file.type });
+    const response = await this.fetch(`${this.baseUrl}/view?${query}`);
+    if (!response.ok) {
+      throw new ComfyClientError(`GET /view failed with status ${response.status}`, response.status);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  /**
+   * 実行を中断（POST /interrupt）
+   * @param promptId 指定するとそのプロンプトが実行中の場合のみ中断する
+   */
+  async interrupt(promptId?: string): Promise<void> {
+    await this.request('POST', '/interrupt', promptId === undefined ? {} : { prompt_id: promptId });
+  }
+
+  /**
+   * 実行待ちのプロンプトをキューから削除（POST /queue）
+   */
+  async deleteFromQueue(promptIds: string[]): Promise<void> {
+    await this.request('POST', '/queue', { delete: promptIds });
+  }
+
+  /**
+   * ノード定義を取得（GET /object_info）
+   * @param classType 指定するとそのノードのみ
+   */
+  async getObjectInfo(classType?: string): Promise<ObjectInfoJson> {
+    const path = classType === undefined ? '/object_info' : `/object_info/${encodeURIComponent(classType)}`;
+    return (await this.request('GET', path)) as ObjectInfoJson;
+  }
+
+  // ============================================
+  // 実行
+  // ============================================
+
+  /**
+   * ワークフローを実行し、完了後に履歴から出力を取得
+   * WebSocketに接続していなければ接続する
+   *
+   * @param workflow ワークフローまたはワークフローJSON
+   * @param options オプション
+   * @throws ComfyExecutionError ノードの実行に失敗した場合
+   * @throws ComfyPromptError サーバーがプロンプトを拒否した場合
+   * @throws ComfyClientError 送信の失敗・中断・切断の場合
+   */
+  async run(workflow: ComfyWorkflow | ComfyWorkflowJson, options: ComfyRunOptions = {}): Promise<ComfyRunResult> {
+    const { signal } = options;
+    if (signal?.aborted) {
+      throw new ComfyClientError('Run was aborted before the prompt was queued');
+    }
+    await this.connect();
+
+    // promptIdの確定前に届いたイベントも取りこぼさないよう、送信前から購読する
+    const outcomes = new Map<string, Error | null>();
+    let disconnected = false;
+    let notify = () => {};
+    const unsubscribes = [
+      this.on('executing', e => {
+        if (e.nodeId === null) outcomes.set(e.promptId, null);
+        notify();
+      }),
+      this.on('execution_error', e => {
+        outcomes.set(e.promptId, new ComfyExecutionError(e));
+        notify();
+      }),
+      this.on('execution_interrupted', e => {
+        outcomes.set(e.promptId, new ComfyClientError(`Prompt "${e.promptId}" was interrupted`));
+        notify();
+      }),
+      this.on('disconnect', () => {
+        disconnected = true;
+        notify();
+      }),
+    ];
+
+    try {
+      const { promptId } = await this.queuePrompt(workflow, { front: options.front });
+
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          const cancel = this.runningPromptId === promptId ? this.interrupt(promptId) : this.deleteFromQueue([promptId]);
+          cancel.catch(() => {});
+          finish(new ComfyClientError(`Prompt "${promptId}" was aborted`));
+        };
+        const finish = (error: Error | null) => {
+          notify = () => {};
+          signal?.removeEventListener('abort', onAbort);
+          if (error) reject(error);
+          else resolve();
+        };
+
+        notify = () => {
+          if (outcomes.has(promptId)) finish(outcomes.get(promptId)!);
+          else if (disconnected) finish(new ComfyClientError(`Connection closed while running prompt "${promptId}"`));
+        };
+        signal?.addEventListener('abort', onAbort);
+        if (signal?.aborted) onAbort();
+        else notify();
+      });
+
+      const history = await this.getHistory(promptId);
+      if (!history) {
+        throw new ComfyClientError(`History for prompt "${promptId}" was not found`);
+      }
+      return { promptId, outputs: history.outputs ?? {} };
+    } finally {
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    }
+  }
+
+  /**
+   * JSONのリクエストを送信し、レスポンスのJSONを返す
+   * @throws ステータスが2xx以外の場合
+   */
+  private async request(method: 'GET' | 'POST', path: string, body?: unknown): Promise<unknown> {
+    const response = await this.fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const text = await response.text();
+    let parsed: unknown = text;
+    try {
+      parsed = text === '' ? undefined : JSON.parse(text);
+    } catch {
+      // JSON以外の本文はそのまま返す
+    }
+
+    if (!response.ok) {
+      const message = (parsed as { error?: { message?: unknown } } | undefined)?.error?.message;
+      throw new ComfyClientError(
+        `${method} ${path} failed with status ${response.status}${typeof message === 'string' ? `: ${message}` : ''}`,
+        response.status,
+        parsed
+      );
+    }
+    return parsed;
+  }
+}
+
+/**
+ * WebSocketの識別子を作成
+ */
+function createClientId(): string {
+  return globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(16)}-${Math.random().toString(16).slice(2)}`;
+}
+
+/**
+ * 値がオブジェクト（配列以外）か
+ */
+function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 文字列ならその値、それ以外はundefined
+ */
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * 有限の数値ならその値、それ以外はundefined
+ */
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * ノードID（文字列または数値）なら文字列、それ以外はundefined
+ */
+function asNodeId(value: unknown): string | undefined {
+  return typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value)) ? String(value) : undefined;
+}
+
+/**
+ * /promptがプロンプトを拒否したレスポンスの本文か（errorまたはnode_errorsを持つ）
+ */
+function isPromptErrorBody(body: unknown): boolean {
+  return isRecord(body) && (isRecord(body.error) || isRecord(body.node_errors));
+}
@@ -0,0 +1,205 @@
+/**
+ * ComfyUI Typed Node Builder Generator
+ *
+ * object_info から型付きノードビルダーのTypeScriptソースを生成する
+ * 必須・任意の入力やCOMBOの選択肢、接続の型をコンパイラでチェックできるようにする
+ */
+
+import { InputSchema, NodeSchema, NodeSchemaRegistry, ObjectInfoJson } from './schema';
+
+/** generateNodeBuildersのオプション */
+export interface GenerateNodeBuildersOptions {
+  /** 生成コードがライブラリをimportするパス（デフォルト: './comfyui-graph-utils'） */
+  importPath?: string;
+  /** 生成対象のclass_type（省略時はすべて） */
+  classTypes?: string[];
+}
+
+/** ハンドルのIDと衝突する出力名 */
+const RESERVED_OUTPUT_NAMES = new Set(['id']);
+
+/**
+ * 型付きノードビルダーのTypeScriptソースを生成
+ *
+ * @example
+ * ```typescript
+ * // 生成
+ * writeFileSync('nodes.ts', generateNodeBuilders(objectInfo));
+ *
+ * // 利用
+ * const nodes = createNodes(workflow);
+ * const ckpt = nodes.CheckpointLoaderSimple({ ckpt_name: 'sd_xl_base_1.0.safetensors' });
+ * const positive = nodes.CLIPTextEncode({ text: 'a cat', clip: ckpt.CLIP });
+ * ```
+ * @param objectInfo object_info、またはNodeSchemaRegistry
+ * @param options オプション
+ * @returns TypeScriptソース
+ */
+export function generateNodeBuilders(
+  objectInfo: ObjectInfoJson | NodeSchemaRegistry,
+  options: GenerateNodeBuildersOptions = {}
+): string {
+  const registry = objectInfo instanceof NodeSchemaRegistry ? objectInfo : NodeSchemaRegistry.fromObjectInfo(objectInfo);
+  const importPath = options.importPath ?? './comfyui-graph-utils';
+  const classTypes = (options.classTypes ?? registry.getClassTypes()).slice().sort();
+
+  const usedNames = new Set<string>();
+  const declarations: string[] = [];
+  const builders: string[] = [];
+
+  for (const classType of classTypes) {
+    const schema = registry.get(classType);
+    if (!schema) {
+      throw new Error(`Unknown class_type "${classType}"`);
+    }
+
+    const typeName = uniqueName(toTypeName(classType), usedNames);
+    const outputs = outputNames(schema);
+
+    declarations.push(
+      [
+        `/** ${classType} の入力 */`,
+        `export interface ${typeName}Inputs {`,
+        ...schema.inputs.map(input => `  ${propertyKey(input.name)}${input.required ? '' : '?'}: ${inputType(input)};`),
+        '}',
+        '',
+        `/** ${classType} の出力 */`,
+        `export interface ${typeName}Outputs {`,
+        ...schema.outputs.map((output, i) => `  ${propertyKey(outputs[i])}: NodeOutput<${outputTypeUnion(output.type)}>;`),
+        '}',
+      ].join('\n')
+    );
+
+    const outputSpecs = schema.outputs.map((output, i) => `[${quote(outputs[i])}, ${quote(output.type)}]`).join(', ');
+    builders.push(
+      [
+        `    /** ${comment(schema.displayName ?? classType)} */`,
+        `    ${propertyKey(classType)}: (inputs: ${typeName}Inputs, options?: AddNodeOptions): NodeHandle<${typeName}Outputs> =>`,
+        `      addTypedNode<${typeName}Outputs>(workflow, ${quote(classType)}, { ...inputs }, [${outputSpecs}], options),`,
+      ].join('\n')
+    );
+  }
+
+  return [
+    '/**',
+    ' * ComfyUI Typed Node Builders',
+    ' *',
+    ' * generateNodeBuildersにより自動生成（直接編集しないこと）',
+    ' */',
+    '',
+    `import { AddNodeOptions, ComfyWorkflow, NodeHandle, NodeOutput, addTypedNode } from ${quote(importPath)};`,
+    '',
+    ...declarations.flatMap(declaration => [declaration, '']),
+    '/**',
+    ' * ワークフローに型付きノードを追加するビルダーを作成',
+    ' * @param workflow 追加先のワークフロー',
+    ' */',
+    'export function createNodes(workflow: ComfyWorkflow) {',
+    '  return {',
+    ...builders,
+    '  };',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * 入力のTypeScript型
+ */
+function inputType(input: InputSchema): string {
+  const connection = `NodeOutput<${inputTypeUnion(input.type)}>`;
+  if (!input.isWidget) {
+    return connection;
+  }
+
+  // ウィジェットもプリミティブノード等からの接続を受け付ける
+  switch (input.type) {
+    case 'INT':
+    case 'FLOAT':
+      return `number | ${connection}`;
+    case 'STRING':
+      return `string | ${connection}`;
+    case 'BOOLEAN':
+      return `boolean | ${connection}`;
+    case 'COMBO': {
+      const literals = (input.options ?? []).map(option => (typeof option === 'number' ? String(option) : quote(option)));
+      return `${literals.length > 0 ? [...new Set(literals)].join(' | ') : 'string'} | NodeOutput`;
+    }
+    default:
+      return connection;
+  }
+}
+
+/**
+ * 入力が受け付ける出力の型（`*` はどの型とも接続可能）
+ */
+function inputTypeUnion(type: string): string {
+  if (type.split(',').some(t => t.trim() === '*')) {
+    return 'string';
+  }
+  return [...type.split(',').map(t => quote(t.trim())), quote('*')].join(' | ');
+}
+
+/**
+ * 出力の型
+ */
+function outputTypeUnion(type: string): string {
+  return type
+    .split(',')
+    .map(t => quote(t.trim()))
+    .join(' | ');
+}
+
+/**
+ * ハンドル上の出力名（重複や予約名には連番を付ける）
+ */
+function outputNames(schema: NodeSchema): string[] {
+  const used = new Set(RESERVED_OUTPUT_NAMES);
+  return schema.outputs.map(output => uniqueName(output.name, used));
+}
+
+/**
+ * 既に使われている名前と重複しない名前を返す
+ */
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let i = 1; used.has(candidate); i++) {
+    candidate = `${name}_${i}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
+
+/**
+ * class_typeを型名に変換
+ */
+function toTypeName(classType: string): string {
+  const name = classType
+    .split(/[^A-Za-z0-9_$]+/)
+    .filter(part => part !== '')
+    .map(part => part[0].toUpperCase() + part.slice(1))
+    .join('');
+  if (name === '') return 'Node';
+  return /^[0-9]/.test(name) ? `Node${name}` : name;
+}
+
+/**
+ * オブジェクトのキー（識別子として使えない場合はクォートする）
+ */
+function propertyKey(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : quote(name);
+}
+
+/**
+ * 文字列リテラル
+ */
+function quote(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r/g, '\\r').replace(/\n/g, '\\n')}'`;
+}
+
+/**
+ * コメントに埋め込めるように整形
+ */
+function comment(text: string): string {
+  return text.replace(/\*\//g, '*\\/').replace(/\s+/g, ' ');
+}
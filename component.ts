@@ -0,0 +1,166 @@
+/**
+ * ComfyUI Workflow Component
+ *
+ * 入力ポート・出力ポート・パラメータを宣言した小さなワークフローを
+ * 再利用可能な部品（コンポーネント）として扱う
+ */
+
+import type { ComfyWorkflow } from './ComfyWorkflow';
+import { InputValue, NodeConnection, isNodeConnection } from './types';
+
+/** コンポーネント内のノード入力 */
+export interface ComponentInputTarget {
+  nodeId: string;
+  inputName: string;
+}
+
+/** 入力ポートの定義 */
+export interface ComponentInputPort {
+  /** 接続先となるコンポーネント内のノード入力（複数指定で分岐） */
+  targets: ComponentInputTarget[];
+  /** trueなら接続を省略できる */
+  optional?: boolean;
+}
+
+/** 出力ポートの定義 */
+export interface ComponentOutputPort {
+  nodeId: string;
+  /** 出力ポート番号、またはスキーマ上の出力名 */
+  port: number | string;
+}
+
+/** パラメータの定義 */
+export interface ComponentParam {
+  /** 値を設定するコンポーネント内のノード入力（複数指定で同じ値を設定） */
+  targets: ComponentInputTarget[];
+  /** 省略時の値（未指定ならコンポーネント内の値をそのまま使う） */
+  default?: InputValue;
+}
+
+/** コンポーネントの定義 */
+export interface ComponentDefinition {
+  name: string;
+  workflow: ComfyWorkflow;
+  inputs?: { [name: string]: ComponentInputPort };
+  outputs?: { [name: string]: ComponentOutputPort };
+  params?: { [name: string]: ComponentParam };
+}
+
+/** addComponentの結果 */
+export interface ComponentInstance {
+  /** コンポーネント内のID → ホスト上の新しいIDの対応 */
+  nodeIds: { [componentNodeId: string]: string };
+  /** 出力ポート名 → ホスト上の接続元 */
+  outputs: { [name: string]: NodeConnection };
+}
+
+/**
+ * 再利用可能なワークフロー部品
+ *
+ * @example
+ * ```typescript
+ * const lora = new ComfyComponent({
+ *   name: 'LoRA',
+ *   workflow: loraWorkflow,
+ *   inputs: {
+ *     model: { targets: [{ nodeId: '1', inputName: 'model' }] },
+ *     clip: { targets: [{ nodeId: '1', inputName: 'clip' }] },
+ *   },
+ *   outputs: { MODEL: { nodeId: '1', port: 0 }, CLIP: { nodeId: '1', port: 1 } },
+ *   params: { strength: { targets: [{ nodeId: '1', inputName: 'strength_model' }] } },
+ * });
+ *
+ * const instance = workflow.addComponent(lora, { strength: 0.8 }, {
+ *   model: [ckptId, 0],
+ *   clip: [ckptId, 1],
+ * });
+ * workflow.addEdge(...instance.outputs.MODEL, samplerId, 'model');
+ * ```
+ */
+export class ComfyComponent {
+  readonly name: string;
+  readonly inputs: { [name: string]: ComponentInputPort };
+  readonly outputs: { [name: string]: { nodeId: string; port: number } };
+  readonly params: { [name: string]: ComponentParam };
+  private workflow: ComfyWorkflow;
+
+  /**
+   * コンポーネントを定義
+   * @param definition コンポーネントの定義
+   * @throws ポートやパラメータが存在しないノード・入力を指している場合
+   */
+  constructor(definition: ComponentDefinition) {
+    this.name = definition.name;
+    this.workflow = definition.workflow.extractSubgraph(Object.keys(definition.workflow.getNodes()));
+    this.inputs = JSON.parse(JSON.stringify(definition.inputs ?? {}));
+    this.params = JSON.parse(JSON.stringify(definition.params ?? {}));
+    this.outputs = {};
+
+    const nodes = this.workflow.getNodes();
+    const schema = this.workflow.getSchema();
+
+    for (const [name, port] of Object.entries(this.inputs)) {
+      for (const target of port.targets) {
+        const node = nodes[target.nodeId];
+        if (!node) {
+          throw new Error(`Component "${this.name}" input "${name}" targets non-existent node "${target.nodeId}"`);
+        }
+        if (isNodeConnection(node.inputs[target.inputName])) {
+          throw new Error(
+            `Component "${this.name}" input "${name}" targets "${target.nodeId}.${target.inputName}", which is already connected`
+          );
+        }
+      }
+    }
+
+    for (const [name, param] of Object.entries(this.params)) {
+      for (const target of param.targets) {
+        if (!nodes[target.nodeId]) {
+          throw new Error(`Component "${this.name}" param "${name}" targets non-existent node "${target.nodeId}"`);
+        }
+      }
+    }
+
+    for (const [name, output] of Object.entries(definition.outputs ?? {})) {
+      const node = nodes[output.nodeId];
+      if (!node) {
+        throw new Error(`Component "${this.name}" output "${name}" refers to non-existent node "${output.nodeId}"`);
+      }
+
+      const schemaOutputs = schema?.getOutputs(node.class_type);
+      let port = output.port;
+      if (typeof port === 'string') {
+        const index = schemaOutputs?.findIndex(o => o.name === port) ?? -1;
+        if (index < 0) {
+          throw new Error(`Component "${this.name}" output "${name}": cannot resolve output "${port}" of node "${output.nodeId}"`);
+        }
+        port = index;
+      } else if (schemaOutputs && port >= schemaOutputs.length) {
+        throw new Error(`Component "${this.name}" output "${name}": node "${output.nodeId}" has no output port ${port}`);
+      }
+      this.outputs[name] = { nodeId: output.nodeId, port };
+    }
+  }
+
+  /**
+   * パラメータを適用したワークフローのコピーを作成
+   * @param params パラメータ名 → 値
+   */
+  instantiate(params: { [name: string]: InputValue } = {}): ComfyWorkflow {
+    for (const name of Object.keys(params)) {
+      if (!this.params[name]) {
+        throw new Error(`Component "${this.name}" has no param "${name}"`);
+      }
+    }
+
+    const workflow = this.workflow.extractSubgraph(Object.keys(this.workflow.getNodes()));
+    for (const [name, param] of Object.entries(this.params)) {
+      const value = name in params ? params[name] : param.default;
+      if (value === undefined) continue;
+      for (const target of param.targets) {
+        workflow.setInput(target.nodeId, target.inputName, value);
+      }
+    }
+    return workflow;
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * 型付きノードビルダー生成スクリプト
+ * object_infoのダンプ（またはComfyUIサーバー）から型付きビルダーを生成する
+ *
+ * 使い方:
+ *   npx tsx examples/generate-nodes.ts object_info.json > nodes.ts
+ *   npx tsx examples/generate-nodes.ts http://127.0.0.1:8188 > nodes.ts
+ */
+
+import { readFileSync } from 'node:fs';
+import { ObjectInfoJson, generateNodeBuilders } from '../index';
+
+/**
+ * object_infoを読み込む
+ * @param source JSONファイルのパス、またはComfyUIサーバーのURL
+ */
+export async function loadObjectInfo(source: string): Promise<ObjectInfoJson> {
+  if (/^https?:\/\//.test(source)) {
+    const response = await fetch(`${source.replace(/\/$/, '')}/object_info`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch object_info: ${response.status} ${response.statusText}`);
+    }
+    return (await response.json()) as ObjectInfoJson;
+  }
+  return JSON.parse(readFileSync(source, 'utf-8'));
+}
+
+// メイン実行
+if (import.meta.url === `file://${process.argv[1]}` || process.argv[1]?.endsWith('generate-nodes.ts')) {
+  const [source, importPath] = process.argv.slice(2);
+  if (!source) {
+    console.error('Usage: npx tsx examples/generate-nodes.ts <object_info.json | server URL> [import path]');
+    process.exit(1);
+  }
+
+  loadObjectInfo(source)
+    .then(objectInfo => {
+      // 生成コードのみstdoutに出力（リダイレクト用）
+      console.log(generateNodeBuilders(objectInfo, { importPath }));
+      console.error(`Generated builders for ${Object.keys(objectInfo).length} node types`);
+    })
+    .catch(e => {
+      console.error(e instanceof Error ? e.message : e);
+      process.exit(1);
+    });
+}
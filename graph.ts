@@ -0,0 +1,298 @@
+/**
+ * ComfyUI Workflow Graph Algorithms
+ *
+ * ワークフローJSONを有向グラフ（ソースノード → ターゲットノード）として扱うアルゴリズム
+ */
+
+import { ComfyWorkflowJson, isNodeConnection } from './types';
+import { NodeSchemaRegistry } from './schema';
+
+/**
+ * ノードIDを比較（数値IDは数値順、それ以外は文字列順）
+ */
+export function compareNodeIds(a: string, b: string): number {
+  const aNum = Number(a);
+  const bNum = Number(b);
+  const aIsNum = a !== '' && Number.isInteger(aNum);
+  const bIsNum = b !== '' && Number.isInteger(bNum);
+  if (aIsNum && bIsNum) return aNum - bNum;
+  if (aIsNum) return -1;
+  if (bIsNum) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * ワークフローにノードが存在するか（Object.prototypeのキーはノードとみなさない）
+ */
+export function hasNode(json: ComfyWorkflowJson, nodeId: string): boolean {
+  return Object.prototype.hasOwnProperty.call(json, nodeId);
+}
+
+/**
+ * ノードごとの下流ノード一覧を作成（存在しないノードへの参照は無視）
+ */
+export function buildAdjacency(json: ComfyWorkflowJson): Map<string, Set<string>> {
+  const adjacency = new Map<string, Set<string>>();
+  for (const nodeId of Object.keys(json)) {
+    adjacency.set(nodeId, new Set());
+  }
+  for (const [nodeId, node] of Object.entries(json)) {
+    for (const value of Object.values(node.inputs)) {
+      if (isNodeConnection(value) && adjacency.has(value[0])) {
+        adjacency.get(value[0])!.add(nodeId);
+      }
+    }
+  }
+  return adjacency;
+}
+
+/**
+ * トポロジカルソート（上流のノードが先）
+ * 同時に実行可能なノードはtieBreakerの順（省略時はID順）に並べるため、結果は決定的
+ * @param json ワークフローJSON
+ * @param tieBreaker 同順位のノードの比較関数（オプション）
+ * @throws 循環がある場合
+ */
+export function topologicalSort(
+  json: ComfyWorkflowJson,
+  tieBreaker: (a: string, b: string) => number = compareNodeIds
+): string[] {
+  const adjacency = buildAdjacency(json);
+  const inDegree = new Map<string, number>();
+  for (const nodeId of adjacency.keys()) {
+    inDegree.set(nodeId, 0);
+  }
+  for (const targets of adjacency.values()) {
+    for (const target of targets) {
+      inDegree.set(target, inDegree.get(target)! + 1);
+    }
+  }
+
+  const ready = [...inDegree.keys()].filter(id => inDegree.get(id) === 0).sort(tieBreaker);
+  const order: string[] = [];
+
+  while (ready.length > 0) {
+    const nodeId = ready.shift()!;
+    order.push(nodeId);
+
+    let added = false;
+    for (const target of adjacency.get(nodeId)!) {
+      const degree = inDegree.get(target)! - 1;
+      inDegree.set(target, degree);
+      if (degree === 0) {
+        ready.push(target);
+        added = true;
+      }
+    }
+    if (added) ready.sort(tieBreaker);
+  }
+
+  if (order.length !== adjacency.size) {
+    const cycle = findCycles(json)[0] ?? [];
+    throw new Error(`Workflow contains a cycle: ${cycle.map(id => `"${id}"`).join(', ')}`);
+  }
+  return order;
+}
+
+/**
+ * 循環を検出（強連結成分のうち2ノード以上のもの、または自己ループ）
+ * 強連結成分ごとに、ID順で最初のノードから始まる最短の循環を1つ返す
+ * @returns 循環ごとのノードID配列（データの流れる順。最後のノードの出力が最初のノードの入力に接続されている）
+ */
+export function findCycles(json: ComfyWorkflowJson): string[][] {
+  const adjacency = buildAdjacency(json);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  // Tarjanのアルゴリズム（再帰を避けるため明示的なスタックで実装）
+  for (const root of [...adjacency.keys()].sort(compareNodeIds)) {
+    if (index.has(root)) continue;
+
+    const work: { nodeId: string; targets: Iterator<string> }[] = [];
+    const visit = (nodeId: string) => {
+      index.set(nodeId, counter);
+      lowLink.set(nodeId, counter);
+      counter++;
+      stack.push(nodeId);
+      onStack.add(nodeId);
+      work.push({ nodeId, targets: adjacency.get(nodeId)!.values() });
+    };
+    visit(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const next = frame.targets.next();
+      if (!next.done) {
+        const target = next.value;
+        if (!index.has(target)) {
+          visit(target);
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.nodeId, Math.min(lowLink.get(frame.nodeId)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].nodeId;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.nodeId)!));
+      }
+
+      if (lowLink.get(frame.nodeId) === index.get(frame.nodeId)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.nodeId);
+
+        if (component.length > 1 || adjacency.get(frame.nodeId)!.has(frame.nodeId)) {
+          cycles.push(shortestCycle(adjacency, new Set(component), component.sort(compareNodeIds)[0]));
+        }
+      }
+    }
+  }
+
+  return cycles.sort((a, b) => compareNodeIds(a[0], b[0]));
+}
+
+/**
+ * 強連結成分内でstartに戻る最短の循環（幅優先探索）
+ */
+function shortestCycle(adjacency: Map<string, Set<string>>, members: Set<string>, start: string): string[] {
+  const previous = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    for (const target of [...adjacency.get(nodeId)!].sort(compareNodeIds)) {
+      if (target === start) {
+        const cycle = [nodeId];
+        while (cycle[0] !== start) cycle.unshift(previous.get(cycle[0])!);
+        return cycle;
+      }
+      if (members.has(target) && !previous.has(target)) {
+        previous.set(target, nodeId);
+        queue.push(target);
+      }
+    }
+  }
+  return [start];
+}
+
+/**
+ * fromからtoへの経路（データの流れる向き）があるか確認
+ */
+export function hasPath(json: ComfyWorkflowJson, from: string, to: string): boolean {
+  const adjacency = buildAdjacency(json);
+  const visited = new Set<string>([from]);
+  const queue = [from];
+  while (queue.length > 0) {
+    const nodeId = queue.shift()!;
+    if (nodeId === to) return true;
+    for (const target of adjacency.get(nodeId) ?? []) {
+      if (!visited.has(target)) {
+        visited.add(target);
+        queue.push(target);
+      }
+    }
+  }
+  return false;
+}
+
+/** 既定の出力ノード（スキーマがなくても出力ノードとして扱うclass_type） */
+export const DEFAULT_OUTPUT_NODE_TYPES: readonly string[] = [
+  'SaveImage',
+  'PreviewImage',
+  'SaveAnimatedWEBP',
+  'SaveAnimatedPNG',
+  'SaveVideo',
+  'SaveWEBM',
+  'SaveLatent',
+  'SaveAudio',
+  'PreviewAudio',
+  'SaveGLB',
+  'VHS_VideoCombine',
+];
+
+/** 出力ノードの判定オプション */
+export interface OutputNodeOptions {
+  /** 出力ノードとして扱うclass_type（省略時はDEFAULT_OUTPUT_NODE_TYPES） */
+  outputNodeTypes?: Iterable<string>;
+  /** 指定するとoutput_nodeフラグを持つclass_typeも出力ノードとして扱う */
+  schema?: NodeSchemaRegistry;
+}
+
+/**
+ * 上流（祖先）ノードを取得
+ * @param json ワークフローJSON
+ * @param nodeId 起点のノードID（結果には含まない）
+ */
+export function getAncestors(json: ComfyWorkflowJson, nodeId: string): string[] {
+  const visited = new Set<string>();
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (!hasNode(json, id)) continue;
+    for (const value of Object.values(json[id].inputs)) {
+      if (isNodeConnection(value) && hasNode(json, value[0]) && !visited.has(value[0])) {
+        visited.add(value[0]);
+        queue.push(value[0]);
+      }
+    }
+  }
+  visited.delete(nodeId);
+  return [...visited].sort(compareNodeIds);
+}
+
+/**
+ * 下流（子孫）ノードを取得
+ * @param json ワークフローJSON
+ * @param nodeId 起点のノードID（結果には含まない）
+ */
+export function getDescendants(json: ComfyWorkflowJson, nodeId: string): string[] {
+  const adjacency = buildAdjacency(json);
+  const visited = new Set<string>();
+  const queue = [nodeId];
+  while (queue.length > 0) {
+    for (const target of adjacency.get(queue.shift()!) ?? []) {
+      if (!visited.has(target)) {
+        visited.add(target);
+        queue.push(target);
+      }
+    }
+  }
+  visited.delete(nodeId);
+  return [...visited].sort(compareNodeIds);
+}
+
+/**
+ * 出力ノードを取得
+ */
+export function findOutputNodes(json: ComfyWorkflowJson, options: OutputNodeOptions = {}): string[] {
+  const outputNodeTypes = new Set(options.outputNodeTypes ?? DEFAULT_OUTPUT_NODE_TYPES);
+  return Object.keys(json)
+    .filter(id => {
+      const classType = json[id].class_type;
+      return outputNodeTypes.has(classType) || options.schema?.get(classType)?.outputNode === true;
+    })
+    .sort(compareNodeIds);
+}
+
+/**
+ * どの出力ノードにも寄与しないノードを取得
+ */
+export function findDeadNodes(json: ComfyWorkflowJson, options: OutputNodeOptions = {}): string[] {
+  const live = new Set<string>();
+  for (const outputId of findOutputNodes(json, options)) {
+    live.add(outputId);
+    for (const ancestor of getAncestors(json, outputId)) {
+      live.add(ancestor);
+    }
+  }
+  return Object.keys(json).filter(id => !live.has(id)).sort(compareNodeIds);
+}
@@ -0,0 +1,514 @@
+/**
+ * ComfyUI Image Metadata
+ *
+ * ComfyUIが画像に埋め込むワークフロー（PNGのtEXtチャンク、WebPのEXIF）の読み書き
+ * ネイティブの依存なしでPNG・WebPのチャンクを直接扱う
+ */
+
+import type { ComfyWorkflow } from './ComfyWorkflow';
+import { ComfyWorkflowJson, isComfyWorkflowJson } from './types';
+import { UiWorkflowJson, isUiWorkflowJson } from './uiFormat';
+
+/** 画像に埋め込まれたワークフロー */
+export interface ImageWorkflowMetadata {
+  /** API形式のワークフロー（キー 'prompt'） */
+  prompt?: ComfyWorkflowJson;
+  /** UI形式のワークフロー（キー 'workflow'） */
+  workflow?: UiWorkflowJson;
+}
+
+/** embedInImageのオプション */
+export interface EmbedInImageOptions {
+  /**
+   * UI形式のワークフロー（'workflow'）を書き込むか（デフォルト: ワークフローにスキーマがある場合のみ）
+   * 書き込まない場合は既存のものを削除する（ComfyUIは 'prompt' より 'workflow' を優先して読み込むため）
+   * スキーマがないとウィジェットの値を正しく並べられないため、trueを指定する場合はスキーマを設定すること
+   */
+  ui?: boolean;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/** ComfyUIがWebPのEXIFで使うタグ（'prompt' は0x0110、その他は0x010fから順に小さくなる） */
+const EXIF_PROMPT_TAG = 0x0110;
+
+/** WebPのVP8Xチャンクのフラグ */
+const VP8X_ALPHA = 0x10;
+const VP8X_EXIF = 0x08;
+
+/** PNGまたはWebPのチャンク */
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+}
+
+/**
+ * 画像に埋め込まれたテキスト（キー → 値）を読み込む
+ * - PNG: tEXtチャンクと非圧縮のiTXtチャンク
+ * - WebP: EXIFのIFD0にある "キー:値" 形式の文字列
+ * @param image PNGまたはWebPのバイト列
+ * @throws PNG・WebP以外の場合
+ */
+export function readImageText(image: Uint8Array | ArrayBuffer): { [key: string]: string } {
+  const bytes = toBytes(image);
+  const result: { [key: string]: string } = {};
+
+  if (isPng(bytes)) {
+    for (const chunk of readPngChunks(bytes)) {
+      const entry = decodePngText(chunk);
+      if (entry) result[entry.key] = entry.value;
+    }
+    return result;
+  }
+
+  if (isWebp(bytes)) {
+    const exif = readWebpChunks(bytes).find(chunk => chunk.type === 'EXIF');
+    for (const text of exif ? readExifStrings(exif.data) : []) {
+      const separator = text.indexOf(':');
+      if (separator > 0) result[text.slice(0, separator)] = text.slice(separator + 1);
+    }
+    return result;
+  }
+
+  throw new Error('Unsupported image format: expected PNG or WebP');
+}
+
+/**
+ * 画像にテキストを書き込んだ新しいバイト列を作成
+ * - PNG: 同じキーのテキストチャンクを置き換える（IHDRの直後に書き込む）
+ * - WebP: EXIFチャンクを置き換える（既存のEXIFの他のタグは残らない）
+ * @param image PNGまたはWebPのバイト列（変更しない）
+ * @param entries キー → 値（nullはそのキーを削除）
+ * @throws PNG・WebP以外の場合
+ */
+export function writeImageText(
+  image: Uint8Array | ArrayBuffer,
+  entries: { [key: string]: string | null }
+): Uint8Array {
+  const bytes = toBytes(image);
+
+  if (isPng(bytes)) {
+    const chunks = readPngChunks(bytes).filter(chunk => {
+      const key = readPngTextKey(chunk);
+      return key === undefined || !(key in entries);
+    });
+    const textChunks = Object.entries(entries)
+      .filter((entry): entry is [string, string] => entry[1] !== null)
+      .map(([key, value]) => encodePngText(key, value));
+    const ihdr = chunks.findIndex(chunk => chunk.type === 'IHDR');
+    chunks.splice(ihdr + 1, 0, ...textChunks);
+    return writePngChunks(chunks);
+  }
+
+  if (isWebp(bytes)) {
+    const chunks = readWebpChunks(bytes);
+    const exif = chunks.find(chunk => chunk.type === 'EXIF');
+    const merged: { [key: string]: string } = {};
+    for (const text of exif ? readExifStrings(exif.data) : []) {
+      const separator = text.indexOf(':');
+      if (separator > 0) merged[text.slice(0, separator)] = text.slice(separator + 1);
+    }
+    for (const [key, value] of Object.entries(entries)) {
+      if (value === null) delete merged[key];
+      else merged[key] = value;
+    }
+    return writeWebpExif(chunks, Object.keys(merged).length > 0 ? buildExif(merged) : undefined);
+  }
+
+  throw new Error('Unsupported image format: expected PNG or WebP');
+}
+
+/**
+ * 画像に埋め込まれたワークフローを読み込む
+ * JSONとして読めない値やワークフローの形式でない値は無視する
+ * @param image PNGまたはWebPのバイト列
+ */
+export function readWorkflowFromImage(image: Uint8Array | ArrayBuffer): ImageWorkflowMetadata {
+  const text = readImageText(image);
+  const result: ImageWorkflowMetadata = {};
+
+  const prompt = parseJson(text.prompt);
+  if (isComfyWorkflowJson(prompt)) result.prompt = prompt;
+  const workflow = parseJson(text.workflow);
+  if (isUiWorkflowJson(workflow)) result.workflow = workflow;
+  return result;
+}
+
+/**
+ * ワークフローをComfyUIと同じ形式で画像に埋め込む
+ * API形式を 'prompt'、UI形式を 'workflow' として書き込むため、ComfyUIにドラッグして読み込める
+ * UI形式はワークフローにスキーマがある場合のみ書き込む（options.uiで変更できる）
+ * @param image PNGまたはWebPのバイト列（変更しない）
+ * @param workflow 埋め込むワークフロー
+ * @param options オプション
+ */
+export function embedInImage(
+  image: Uint8Array | ArrayBuffer,
+  workflow: ComfyWorkflow,
+  options: EmbedInImageOptions = {}
+): Uint8Array {
+  const ui = options.ui ?? workflow.getSchema() !== undefined;
+  return writeImageText(image, {
+    prompt: toAsciiJson(workflow.toJson()),
+    workflow: ui ? toAsciiJson(workflow.toUiJson()) : null,
+  });
+}
+
+// ============================================
+// PNG
+// ============================================
+
+function isPng(bytes: Uint8Array): boolean {
+  return PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * PNGのチャンクを読み込む（IENDまで）
+ */
+function readPngChunks(bytes: Uint8Array): Chunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = latin1(bytes.subarray(offset + 4, offset + 8));
+    if (offset + 12 + length > bytes.length) {
+      throw new Error(`Truncated PNG chunk "${type}"`);
+    }
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+    if (type === 'IEND') break;
+  }
+  return chunks;
+}
+
+/**
+ * チャンクからPNGを組み立てる（CRCは再計算する）
+ */
+function writePngChunks(chunks: Chunk[]): Uint8Array {
+  const size = PNG_SIGNATURE.length + chunks.reduce((sum, chunk) => sum + 12 + chunk.data.length, 0);
+  const result = new Uint8Array(size);
+  const view = new DataView(result.buffer);
+  result.set(PNG_SIGNATURE);
+
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    const dataEnd = offset + 8 + chunk.data.length;
+    view.setUint32(offset, chunk.data.length);
+    result.set(fromLatin1(chunk.type), offset + 4);
+    result.set(chunk.data, offset + 8);
+    view.setUint32(dataEnd, crc32(result.subarray(offset + 4, dataEnd)));
+    offset = dataEnd + 4;
+  }
+  return result;
+}
+
+/**
+ * テキストチャンク（tEXt・iTXt・zTXt）のキーワード
+ */
+function readPngTextKey(chunk: Chunk): string | undefined {
+  if (chunk.type !== 'tEXt' && chunk.type !== 'iTXt' && chunk.type !== 'zTXt') return undefined;
+  const end = chunk.data.indexOf(0);
+  return latin1(chunk.data.subarray(0, end < 0 ? chunk.data.length : end));
+}
+
+/**
+ * テキストチャンクを読み込む（圧縮されたチャンクは無視する）
+ */
+function decodePngText(chunk: Chunk): { key: string; value: string } | undefined {
+  const key = readPngTextKey(chunk);
+  if (key === undefined) return undefined;
+  const data = chunk.data;
+  const keyEnd = key.length;
+
+  if (chunk.type === 'tEXt') {
+    return { key, value: latin1(data.subarray(keyEnd + 1)) };
+  }
+  if (chunk.type === 'iTXt' && data[keyEnd + 1] === 0) {
+    // キーワード\0 圧縮フラグ 圧縮方式 言語タグ\0 翻訳されたキーワード\0 本文
+    const languageEnd = data.indexOf(0, keyEnd + 3);
+    const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+    if (translatedEnd < 0) return undefined;
+    return { key, value: new TextDecoder().decode(data.subarray(translatedEnd + 1)) };
+  }
+  return undefined;
+}
+
+/**
+ * テキストチャンクを作成（Latin-1で表せればtEXt、そうでなければiTXt）
+ */
+function encodePngText(key: string, value: string): Chunk {
+  const keyword = fromLatin1(key);
+  if (/^[\u0000-\u00ff]*$/.test(value)) {
+    return { type: 'tEXt', data: concat([keyword, new Uint8Array([0]), fromLatin1(value)]) };
+  }
+  return {
+    type: 'iTXt',
+    data: concat([keyword, new Uint8Array([0, 0, 0, 0, 0]), new TextEncoder().encode(value)]),
+  };
+}
+
+// ============================================
+// WebP
+// ============================================
+
+function isWebp(bytes: Uint8Array): boolean {
+  return bytes.length >= 12 && latin1(bytes.subarray(0, 4)) === 'RIFF' && latin1(bytes.subarray(8, 12)) === 'WEBP';
+}
+
+/**
+ * WebP（RIFF）のチャンクを読み込む
+ */
+function readWebpChunks(bytes: Uint8Array): Chunk[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = Math.min(bytes.length, 8 + view.getUint32(4, true));
+  const chunks: Chunk[] = [];
+  let offset = 12;
+  while (offset + 8 <= end) {
+    const type = latin1(bytes.subarray(offset, offset + 4));
+    const length = view.getUint32(offset + 4, true);
+    if (offset + 8 + length > end) {
+      throw new Error(`Truncated WebP chunk "${type}"`);
+    }
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 8 + length + (length % 2);
+  }
+  return chunks;
+}
+
+/**
+ * EXIFチャンクを置き換えたWebPを組み立てる
+ * 単純形式（VP8・VP8Lのみ）の場合は、EXIFを持てる拡張形式（VP8X）に変換する
+ */
+function writeWebpExif(chunks: Chunk[], exif: Uint8Array | undefined): Uint8Array {
+  const result = chunks.filter(chunk => chunk.type !== 'EXIF');
+
+  let vp8x = result.find(chunk => chunk.type === 'VP8X');
+  if (!vp8x) {
+    if (!exif) return writeWebpChunks(result);
+    vp8x = { type: 'VP8X', data: createVp8xData(result) };
+    result.unshift(vp8x);
+  }
+
+  const data = new Uint8Array(vp8x.data);
+  data[0] = exif ? data[0] | VP8X_EXIF : data[0] & ~VP8X_EXIF;
+  vp8x.data = data;
+
+  if (exif) {
+    // EXIFは画像データの後、XMPの前に置く
+    const xmp = result.findIndex(chunk => chunk.type === 'XMP ');
+    result.splice(xmp < 0 ? result.length : xmp, 0, { type: 'EXIF', data: exif });
+  }
+  return writeWebpChunks(result);
+}
+
+/**
+ * 単純形式のWebPの画像データからVP8Xチャンクの内容を作成
+ */
+function createVp8xData(chunks: Chunk[]): Uint8Array {
+  let width: number;
+  let height: number;
+  let alpha = false;
+
+  const vp8 = chunks.find(chunk => chunk.type === 'VP8 ');
+  const vp8l = chunks.find(chunk => chunk.type === 'VP8L');
+  if (vp8 && vp8.data.length >= 10) {
+    const view = new DataView(vp8.data.buffer, vp8.data.byteOffset, vp8.data.byteLength);
+    width = view.getUint16(6, true) & 0x3fff;
+    height = view.getUint16(8, true) & 0x3fff;
+  } else if (vp8l && vp8l.data.length >= 5) {
+    const bits = new DataView(vp8l.data.buffer, vp8l.data.byteOffset, vp8l.data.byteLength).getUint32(1, true);
+    width = (bits & 0x3fff) + 1;
+    height = ((bits >>> 14) & 0x3fff) + 1;
+    alpha = ((bits >>> 28) & 1) === 1;
+  } else {
+    throw new Error('WebP image has no VP8 or VP8L data');
+  }
+
+  const data = new Uint8Array(10);
+  data[0] = alpha ? VP8X_ALPHA : 0;
+  writeUint24(data, 4, width - 1);
+  writeUint24(data, 7, height - 1);
+  return data;
+}
+
+/**
+ * チャンクからWebPを組み立てる
+ */
+function writeWebpChunks(chunks: Chunk[]): Uint8Array {
+  const size = 12 + chunks.reduce((sum, chunk) => sum + 8 + chunk.data.length + (chunk.data.length % 2), 0);
+  const result = new Uint8Array(size);
+  const view = new DataView(result.buffer);
+  result.set(fromLatin1('RIFF'));
+  view.setUint32(4, size - 8, true);
+  result.set(fromLatin1('WEBP'), 8);
+
+  let offset = 12;
+  for (const chunk of chunks) {
+    result.set(fromLatin1(chunk.type), offset);
+    view.setUint32(offset + 4, chunk.data.length, true);
+    result.set(chunk.data, offset + 8);
+    offset += 8 + chunk.data.length + (chunk.data.length % 2);
+  }
+  return result;
+}
+
+// ============================================
+// EXIF
+// ============================================
+
+/**
+ * EXIF（TIFF）のIFD0にある文字列の値を読み込む
+ */
+function readExifStrings(data: Uint8Array): string[] {
+  // "Exif\0\0" で始まる場合がある
+  if (latin1(data.subarray(0, 6)) === 'Exif\0\0') {
+    data = data.subarray(6);
+  }
+  if (data.length < 8) return [];
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const order = latin1(data.subarray(0, 2));
+  if (order !== 'II' && order !== 'MM') return [];
+  const little = order === 'II';
+
+  const ifd = view.getUint32(4, little);
+  if (ifd + 2 > data.length) return [];
+  const count = view.getUint16(ifd, little);
+  const strings: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > data.length) break;
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+    // 2: ASCII, 7: UNDEFINED
+    if (type !== 2 && type !== 7) continue;
+    const offset = length <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (offset + length > data.length) continue;
+    strings.push(new TextDecoder().decode(data.subarray(offset, offset + length)).replace(/\0+$/, ''));
+  }
+  return strings;
+}
+
+/**
+ * "キー:値" の文字列をIFD0に持つEXIF（リトルエンディアンのTIFF）を作成
+ * ComfyUIと同じく 'prompt' は0x0110、その他のキーは0x010fから順に小さいタグを使う
+ */
+function buildExif(entries: { [key: string]: string }): Uint8Array {
+  let nextTag = EXIF_PROMPT_TAG - 1;
+  const fields = Object.entries(entries)
+    .map(([key, value]) => ({
+      tag: key === 'prompt' ? EXIF_PROMPT_TAG : nextTag--,
+      value: concat([new TextEncoder().encode(`${key}:${value}`), new Uint8Array([0])]),
+    }))
+    .sort((a, b) => a.tag - b.tag);
+
+  const ifdSize = 2 + fields.length * 12 + 4;
+  const dataSize = fields.reduce(
+    (sum, field) => sum + (field.value.length > 4 ? field.value.length + (field.value.length % 2) : 0),
+    0
+  );
+  const result = new Uint8Array(8 + ifdSize + dataSize);
+  const view = new DataView(result.buffer);
+  result.set(fromLatin1('II'));
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, fields.length, true);
+
+  let dataOffset = 8 + ifdSize;
+  fields.forEach((field, i) => {
+    const entry = 10 + i * 12;
+    view.setUint16(entry, field.tag, true);
+    view.setUint16(entry + 2, 2, true);
+    view.setUint32(entry + 4, field.value.length, true);
+    if (field.value.length <= 4) {
+      result.set(field.value, entry + 8);
+    } else {
+      view.setUint32(entry + 8, dataOffset, true);
+      result.set(field.value, dataOffset);
+      dataOffset += field.value.length + (field.value.length % 2);
+    }
+  });
+  return result;
+}
+
+// ============================================
+// ユーティリティ
+// ============================================
+
+function toBytes(image: Uint8Array | ArrayBuffer): Uint8Array {
+  return image instanceof Uint8Array ? image : new Uint8Array(image);
+}
+
+function latin1(bytes: Uint8Array): string {
+  // 引数の数の上限を超えないよう分割して変換する
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+}
+
+function fromLatin1(text: string): Uint8Array {
+  return Uint8Array.from(text, c => c.charCodeAt(0));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+function writeUint24(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >> 8) & 0xff;
+  bytes[offset + 2] = (value >> 16) & 0xff;
+}
+
+/**
+ * JSON文字列（PythonのJSONと同じく非ASCII文字は \uXXXX にエスケープする）
+ */
+function toAsciiJson(value: unknown): string {
+  return JSON.stringify(value).replace(/[\u007f-\uffff]/g, c => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`);
+}
+
+function parseJson(text: string | undefined): unknown {
+  if (text === undefined) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    // PythonのJSONはNaN・Infinityを出力する場合がある
+    try {
+      return JSON.parse(text.replace(/\bNaN\b|-?\bInfinity\b/g, 'null'));
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * CRC-32（PNGのチャンク用）
+ */
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
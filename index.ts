@@ -10,9 +10,9 @@
  *
  * // 新規作成
  * const workflow = new ComfyWorkflow();
- * const vaeId = workflow.addNode('VAELoader', { vae_name: 'model.safetensors' });
+ * const ckptId = workflow.addNode('CheckpointLoaderSimple', { ckpt_name: 'model.safetensors' });
  * const samplerId = workflow.addNode('KSampler', { steps: 20 });
- * workflow.addEdge(vaeId, 0, samplerId, 'model');
+ * workflow.addEdge(ckptId, 0, samplerId, 'model');
  * workflow.setInput(samplerId, 'steps', 30);
  * const json = workflow.toJson();
  *
@@ -21,25 +21,207 @@
  * ```
  */
 
-export { ComfyWorkflow } from './ComfyWorkflow';
+export { ComfyWorkflow, type ComfyWorkflowOptions, type TransactionOptions, type MergeResult } from './ComfyWorkflow';
 export {
   type NodeConnection,
+  type JsonValue,
+  type LiteralValue,
   type InputValue,
   type NodeMeta,
   type ComfyNode,
   type ComfyWorkflowJson,
   type Edge,
   type AddNodeOptions,
+  type ImportConnection,
+  type ImportWorkflowOptions,
+  type InsertOnEdgeOptions,
+  type ReplaceNodeOptions,
   type StructuralDiff,
   type StructuralDiffType,
+  type MergeConflict,
+  type MergeConflictType,
   isNodeConnection,
+  isLiteralValue,
+  isJsonValue,
+  literal,
+  unwrapInputValue,
+  normalizeInputValue,
   isComfyNode,
   isComfyWorkflowJson,
 } from './types';
 export {
   type ValidationError,
   type ValidationResult,
+  type ValidateWorkflowOptions,
+  WorkflowValidationError,
   validateWorkflowStructure,
   validateConnections,
+  validateNodeSchemas,
   validateWorkflow,
 } from './validators';
+export {
+  type ObjectInfoInputSpec,
+  type ObjectInfoNode,
+  type ObjectInfoJson,
+  type InputSchema,
+  type OutputSchema,
+  type NodeSchema,
+  type ConnectionIssue,
+  NodeSchemaRegistry,
+  ConnectionTypeError,
+  isTypeCompatible,
+} from './schema';
+export {
+  type UiLink,
+  type UiLinkObject,
+  type UiNodeInput,
+  type UiNodeOutput,
+  type UiNode,
+  type UiGroup,
+  type UiWorkflowJson,
+  UI_NODE_MODE,
+  isUiWorkflowJson,
+  uiToApiJson,
+  apiToUiJson,
+} from './uiFormat';
+export {
+  type OutputNodeOptions,
+  DEFAULT_OUTPUT_NODE_TYPES,
+  compareNodeIds,
+  topologicalSort,
+  findCycles,
+  getAncestors,
+  getDescendants,
+  findOutputNodes,
+  findDeadNodes,
+} from './graph';
+export {
+  type ComponentInputTarget,
+  type ComponentInputPort,
+  type ComponentOutputPort,
+  type ComponentParam,
+  type ComponentDefinition,
+  type ComponentInstance,
+  ComfyComponent,
+} from './component';
+export {
+  type JsonPatchOperation,
+  JsonPatchError,
+  createWorkflowPatch,
+  applyJsonPatch,
+  isDeepEqual,
+} from './jsonPatch';
+export {
+  type NodeMatching,
+  matchWorkflowNodes,
+  isInputEquivalent,
+  computeStructuralLabels,
+} from './matching';
+export {
+  type MergeJsonResult,
+  mergeWorkflowJson,
+} from './merge';
+export {
+  type NodeHandle,
+  type NodeOutputSpec,
+  NodeOutput,
+  addTypedNode,
+} from './builders';
+export {
+  type GenerateNodeBuildersOptions,
+  generateNodeBuilders,
+} from './codegen';
+export {
+  type GraphExportOptions,
+  toMermaid,
+  toDot,
+} from './visualize';
+export {
+  type CanonicalizeResult,
+  canonicalizeWorkflowJson,
+  computeContentHash,
+  hashString,
+} from './canonical';
+export {
+  type InputCondition,
+  type NodeQuery,
+  type EdgeQuery,
+  NodeSelection,
+  selectNodes,
+  selectEdges,
+  parseSelector,
+} from './query';
+export {
+  type SweepAxes,
+  type SweepOptions,
+  type SweepManifestEntry,
+  type SweepVariant,
+  WorkflowSweep,
+  range,
+} from './sweep';
+export {
+  type FetchLike,
+  type FetchResponseLike,
+  type WebSocketLike,
+  type ComfyClientOptions,
+  type ComfyOutputFile,
+  type ComfyNodeOutput,
+  type QueuePromptResult,
+  type ComfyHistoryEntry,
+  type ComfyRunResult,
+  type ComfyRunOptions,
+  type ComfyExecutionErrorDetails,
+  type ComfyClientEventMap,
+  type ComfyClientListener,
+  ComfyClient,
+  ComfyClientError,
+  ComfyPromptError,
+  ComfyExecutionError,
+} from './client';
+export {
+  type NodeErrorGroup,
+  type WorkflowErrorReport,
+  parsePromptErrors,
+  parseExecutionError,
+  groupErrorsByNode,
+} from './serverErrors';
+export {
+  type RewiredInput,
+  type BypassRecord,
+  type BypassJsonResult,
+  bypassNodeJson,
+  muteNodeJson,
+  restoreNodeJson,
+  findPassThroughInput,
+} from './bypass';
+export {
+  type AssetReference,
+  type AssetOptions,
+  type AssetMapping,
+  type RemapAssetsResult,
+  type CheckAssetsOptions,
+  type AssetCheckResult,
+  getAssetReferences,
+  remapAssetsJson,
+  checkAssets,
+} from './assets';
+export {
+  type ImageWorkflowMetadata,
+  type EmbedInImageOptions,
+  readImageText,
+  writeImageText,
+  readWorkflowFromImage,
+  embedInImage,
+} from './imageMetadata';
+export {
+  type LintSeverity,
+  type LintRuleOptions,
+  type LintRuleContext,
+  type LintProblem,
+  type LintRule,
+  type LintConfig,
+  type LintReport,
+  type LintFixResult,
+  Linter,
+  BUILTIN_LINT_RULES,
+} from './lint';
@@ -0,0 +1,305 @@
+/**
+ * JSON Patch (RFC 6902)
+ *
+ * ワークフローJSON間の差分をJSON Patchとして生成・適用する
+ */
+
+import { ComfyNode, ComfyWorkflowJson } from './types';
+
+/** JSON Patchの操作 */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: unknown }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: unknown }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: unknown };
+
+/** プロトタイプを書き換えられるため、パスに使えないキー */
+const RESERVED_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * JSON Patchの適用失敗を表すエラー
+ */
+export class JsonPatchError extends Error {
+  constructor(
+    message: string,
+    /** 失敗した操作のインデックス */
+    readonly operationIndex?: number
+  ) {
+    super(operationIndex === undefined ? message : `Patch operation ${operationIndex}: ${message}`);
+    this.name = 'JsonPatchError';
+  }
+}
+
+/**
+ * JSON Pointerのトークンをエスケープ
+ */
+export function escapePointerToken(token: string): string {
+  return token.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+/**
+ * JSON Pointerをトークンに分解
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new JsonPatchError(`Invalid JSON Pointer "${pointer}"`);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * 2つのJSON値が等しいか比較（オブジェクトはキー順を無視）
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, i) => isDeepEqual(value, b[i]));
+  }
+
+  const aObj = a as Record<string, unknown>;
+  const bObj = b as Record<string, unknown>;
+  const aKeys = Object.keys(aObj);
+  if (aKeys.length !== Object.keys(bObj).length) return false;
+  return aKeys.every(key => Object.prototype.hasOwnProperty.call(bObj, key) && isDeepEqual(aObj[key], bObj[key]));
+}
+
+/**
+ * fromをtoに変換するJSON Patchを生成
+ * ノード単位の追加・削除、class_typeの置換、入力値ごとの追加・削除・置換として表現する
+ * @param from 変換元のワークフローJSON
+ * @param to 変換先のワークフローJSON
+ */
+export function createWorkflowPatch(from: ComfyWorkflowJson, to: ComfyWorkflowJson): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = [];
+
+  for (const nodeId of Object.keys(from)) {
+    if (!(nodeId in to)) {
+      patch.push({ op: 'remove', path: `/${escapePointerToken(nodeId)}` });
+    }
+  }
+
+  for (const [nodeId, toNode] of Object.entries(to)) {
+    const nodePath = `/${escapePointerToken(nodeId)}`;
+    const fromNode = from[nodeId];
+    if (!fromNode) {
+      patch.push({ op: 'add', path: nodePath, value: clone(toNode) });
+      continue;
+    }
+    patch.push(...createNodePatch(nodePath, fromNode, toNode));
+  }
+
+  return patch;
+}
+
+/**
+ * 1ノード分のJSON Patchを生成
+ */
+function createNodePatch(nodePath: string, from: ComfyNode, to: ComfyNode): JsonPatchOperation[] {
+  const patch: JsonPatchOperation[] = [];
+
+  if (from.class_type !== to.class_type) {
+    patch.push({ op: 'replace', path: `${nodePath}/class_type`, value: to.class_type });
+  }
+
+  for (const inputName of Object.keys(from.inputs)) {
+    if (!(inputName in to.inputs)) {
+      patch.push({ op: 'remove', path: `${nodePath}/inputs/${escapePointerToken(inputName)}` });
+    }
+  }
+  for (const [inputName, value] of Object.entries(to.inputs)) {
+    const path = `${nodePath}/inputs/${escapePointerToken(inputName)}`;
+    if (!(inputName in from.inputs)) {
+      patch.push({ op: 'add', path, value: clone(value) });
+    } else if (!isDeepEqual(from.inputs[inputName], value)) {
+      patch.push({ op: 'replace', path, value: clone(value) });
+    }
+  }
+
+  if (from._meta === undefined && to._meta !== undefined) {
+    patch.push({ op: 'add', path: `${nodePath}/_meta`, value: clone(to._meta) });
+  } else if (from._meta !== undefined && to._meta === undefined) {
+    patch.push({ op: 'remove', path: `${nodePath}/_meta` });
+  } else if (!isDeepEqual(from._meta, to._meta)) {
+    patch.push({ op: 'replace', path: `${nodePath}/_meta`, value: clone(to._meta) });
+  }
+
+  return patch;
+}
+
+/**
+ * JSON Patchを適用した新しいドキュメントを返す（元のドキュメントは変更しない）
+ * @param document 適用対象
+ * @param patch JSON Patch
+ * @throws {JsonPatchError} 操作が不正な場合、testが失敗した場合
+ */
+export function applyJsonPatch<T>(document: T, patch: JsonPatchOperation[]): T {
+  if (!Array.isArray(patch)) {
+    throw new JsonPatchError('Patch must be an array of operations');
+  }
+
+  // ルート全体の置換にも対応するためラッパーに入れて操作する
+  const root: { doc: unknown } = { doc: clone(document) };
+
+  patch.forEach((operation, index) => {
+    try {
+      applyOperation(root, operation);
+    } catch (e) {
+      if (e instanceof JsonPatchError && e.operationIndex === undefined) {
+        throw new JsonPatchError(e.message, index);
+      }
+      throw e;
+    }
+  });
+
+  return root.doc as T;
+}
+
+/**
+ * 1つの操作を適用
+ */
+function applyOperation(root: { doc: unknown }, operation: JsonPatchOperation): void {
+  switch (operation.op) {
+    case 'add':
+      addValue(root, operation.path, clone(operation.value));
+      return;
+    case 'remove':
+      removeValue(root, operation.path);
+      return;
+    case 'replace':
+      replaceValue(root, operation.path, clone(operation.value));
+      return;
+    case 'move': {
+      if (operation.path.startsWith(`${operation.from}/`)) {
+        throw new JsonPatchError(`Cannot move "${operation.from}" into its own child "${operation.path}"`);
+      }
+      const value = removeValue(root, operation.from);
+      addValue(root, operation.path, value);
+      return;
+    }
+    case 'copy':
+      addValue(root, operation.path, clone(getValue(root, operation.from)));
+      return;
+    case 'test':
+      if (!isDeepEqual(getValue(root, operation.path), operation.value)) {
+        throw new JsonPatchError(`Test failed at "${operation.path}"`);
+      }
+      return;
+    default:
+      throw new JsonPatchError(`Unknown operation "${(operation as { op: unknown }).op}"`);
+  }
+}
+
+/**
+ * パスの親コンテナと最後のトークンを取得
+ */
+function resolveParent(root: { doc: unknown }, path: string): { parent: unknown; key: string } {
+  const tokens = ['doc', ...parsePointer(path)];
+  let parent: unknown = root;
+  for (const token of tokens.slice(0, -1)) {
+    parent = getChild(parent, token, path);
+  }
+  return { parent, key: tokens[tokens.length - 1] };
+}
+
+/**
+ * 子要素を取得
+ */
+function getChild(container: unknown, token: string, path: string): unknown {
+  checkKey(token, path);
+  if (Array.isArray(container)) {
+    const index = parseArrayIndex(token, container.length - 1, path);
+    return container[index];
+  }
+  if (typeof container === 'object' && container !== null && Object.prototype.hasOwnProperty.call(container, token)) {
+    return (container as Record<string, unknown>)[token];
+  }
+  throw new JsonPatchError(`Path "${path}" does not exist`);
+}
+
+/**
+ * パスのトークンが使えるキーか確認
+ * @throws __proto__・constructor・prototypeの場合
+ */
+function checkKey(token: string, path: string): void {
+  if (RESERVED_KEYS.has(token)) {
+    throw new JsonPatchError(`Path "${path}" contains the reserved key "${token}"`);
+  }
+}
+
+/**
+ * 値を取得
+ */
+function getValue(root: { doc: unknown }, path: string): unknown {
+  const { parent, key } = resolveParent(root, path);
+  return getChild(parent, key, path);
+}
+
+/**
+ * 値を追加（オブジェクトは上書き、配列は挿入）
+ */
+function addValue(root: { doc: unknown }, path: string, value: unknown): void {
+  const { parent, key } = resolveParent(root, path);
+  checkKey(key, path);
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : parseArrayIndex(key, parent.length, path);
+    parent.splice(index, 0, value);
+  } else if (typeof parent === 'object' && parent !== null) {
+    (parent as Record<string, unknown>)[key] = value;
+  } else {
+    throw new JsonPatchError(`Path "${path}" does not exist`);
+  }
+}
+
+/**
+ * 既存の値を置換（オブジェクトのキー順は保持する）
+ */
+function replaceValue(root: { doc: unknown }, path: string, value: unknown): void {
+  const { parent, key } = resolveParent(root, path);
+  getChild(parent, key, path);
+  if (Array.isArray(parent)) {
+    parent[Number(key)] = value;
+  } else {
+    (parent as Record<string, unknown>)[key] = value;
+  }
+}
+
+/**
+ * 値を削除して返す
+ */
+function removeValue(root: { doc: unknown }, path: string): unknown {
+  const { parent, key } = resolveParent(root, path);
+  const value = getChild(parent, key, path);
+  if (Array.isArray(parent)) {
+    parent.splice(Number(key), 1);
+  } else {
+    delete (parent as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * 配列インデックスを解析
+ */
+function parseArrayIndex(token: string, max: number, path: string): number {
+  if (!/^(0|[1-9]\d*)$/.test(token) || Number(token) > max) {
+    throw new JsonPatchError(`Invalid array index "${token}" in path "${path}"`);
+  }
+  return Number(token);
+}
+
+/**
+ * JSON値のディープコピー
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,531 @@
+/**
+ * ComfyUI Workflow Lint
+ *
+ * 名前付きのルールでワークフローを検査するルールエンジン
+ * ルールごとに重大度を設定でき、修正関数を持つルールは自動修正できる
+ */
+
+import type { ComfyWorkflow } from './ComfyWorkflow';
+import { ComfyWorkflowJson, isNodeConnection, unwrapInputValue } from './types';
+import { NodeSchemaRegistry } from './schema';
+import {
+  ValidationError,
+  ValidationResult,
+  checkConnectionTypes,
+  checkCycles,
+  checkDeadNodes,
+  checkInputValues,
+  checkIsolatedNodes,
+  checkMissingInputs,
+  checkMissingNodes,
+  checkUnknownInputs,
+  checkUnknownNodeTypes,
+} from './validators';
+import { compareNodeIds, findOutputNodes } from './graph';
+import { isDeepEqual } from './jsonPatch';
+
+/** ルールの重大度（'off' は無効） */
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+/** 設定で指定できる重大度 */
+const LINT_SEVERITIES: ReadonlySet<unknown> = new Set(['error', 'warning', 'off']);
+
+/** ルールのオプション */
+export interface LintRuleOptions {
+  [key: string]: unknown;
+}
+
+/** ルールに渡す情報 */
+export interface LintRuleContext<TOptions = LintRuleOptions> {
+  json: ComfyWorkflowJson;
+  schema?: NodeSchemaRegistry;
+  /** 設定で指定したオプション（parseOptionsがあれば変換後の値） */
+  options: TOptions;
+}
+
+/** ルールが見つけた問題 */
+export interface LintProblem<TData = unknown> {
+  nodeId?: string;
+  inputName?: string;
+  message: string;
+  /** 修正に使う追加情報 */
+  data?: TData;
+}
+
+/**
+ * Lintルール
+ * @typeParam TData 問題の追加情報の型
+ * @typeParam TOptions 変換後のオプションの型（LintRuleOptions以外を指定する場合はparseOptionsが必要）
+ */
+export interface LintRule<TData = unknown, TOptions = LintRuleOptions> {
+  /** ルールID（kebab-case） */
+  id: string;
+  description: string;
+  /** 設定で指定しない場合の重大度 */
+  defaultSeverity: LintSeverity;
+  /** 設定で指定したオプションを検証して変換（不正な場合は例外を投げる） */
+  parseOptions?(options: LintRuleOptions): TOptions;
+  /** 問題を検出 */
+  check(context: LintRuleContext<TOptions>): LintProblem<TData>[];
+  /** 検出した問題を修正（ワークフローを直接変更する） */
+  fix?(workflow: ComfyWorkflow, problems: LintProblem<TData>[], context: LintRuleContext<TOptions>): void;
+}
+
+/** Linterの設定 */
+export interface LintConfig {
+  /** ルールID → 重大度、または [重大度, オプション] */
+  rules?: { [ruleId: string]: LintSeverity | [LintSeverity, LintRuleOptions] };
+  /** 組み込みルールに加えて登録するルール */
+  customRules?: LintRule[];
+  /** ノードスキーマ（省略時はワークフローのスキーマ） */
+  schema?: NodeSchemaRegistry;
+}
+
+/** Lintの結果（errors・warningsのcodeはルールID） */
+export interface LintReport extends ValidationResult {
+  /** ルールID → 問題（問題のあったルールのみ） */
+  byRule: { [ruleId: string]: ValidationError[] };
+}
+
+/** Linter.fixの結果 */
+export interface LintFixResult {
+  /** ルールID → 修正した問題の数 */
+  fixed: { [ruleId: string]: number };
+  /** 修正後のLintの結果 */
+  report: LintReport;
+}
+
+/**
+ * Lintルールエンジン
+ *
+ * @example
+ * ```typescript
+ * const linter = new Linter({
+ *   rules: { 'fixed-seed': 'warning', 'resolution-multiple': ['error', { multiple: 64 }] },
+ * });
+ * linter.register({
+ *   id: 'house/no-preview',
+ *   description: 'PreviewImage is not allowed in production workflows',
+ *   defaultSeverity: 'error',
+ *   check: ({ json }) =>
+ *     Object.keys(json)
+ *       .filter(id => json[id].class_type === 'PreviewImage')
+ *       .map(id => ({ nodeId: id, message: `Node "${id}" is a PreviewImage` })),
+ * });
+ * const report = linter.lint(workflow);
+ * linter.fix(workflow);
+ * ```
+ */
+export class Linter {
+  private rules = new Map<string, LintRule>();
+
+  /**
+   * @param config ルールの重大度・オプション、追加のルール
+   */
+  constructor(private config: LintConfig = {}) {
+    for (const rule of [...BUILTIN_LINT_RULES, ...(config.customRules ?? [])]) {
+      this.register(rule);
+    }
+  }
+
+  /**
+   * ルールを登録
+   * @throws 同じIDのルールが登録済みの場合
+   */
+  register(rule: LintRule): void {
+    if (this.rules.has(rule.id)) {
+      throw new Error(`Lint rule "${rule.id}" is already registered`);
+    }
+    this.rules.set(rule.id, rule);
+  }
+
+  /**
+   * 登録済みのルール（登録順）
+   */
+  getRules(): LintRule[] {
+    return [...this.rules.values()];
+  }
+
+  /**
+   * ワークフローを検査
+   * @param workflow ワークフローまたはワークフローJSON
+   * @throws 設定に未登録のルールIDがある場合、ルールの重大度・オプションが不正な場合
+   */
+  lint(workflow: ComfyWorkflow | ComfyWorkflowJson): LintReport {
+    const json = isWorkflow(workflow) ? workflow.toJson() : workflow;
+    const schema = this.config.schema ?? (isWorkflow(workflow) ? workflow.getSchema() : undefined);
+    const report: LintReport = { valid: true, errors: [], warnings: [], byRule: {} };
+
+    for (const { rule, severity, options } of this.activeRules()) {
+      const problems = rule.check({ json, schema, options });
+      if (problems.length === 0) continue;
+
+      report.byRule[rule.id] = problems.map(problem => {
+        const error: ValidationError = { message: problem.message, severity, code: rule.id };
+        if (problem.nodeId !== undefined) error.nodeId = problem.nodeId;
+        if (problem.inputName !== undefined) error.inputName = problem.inputName;
+        return error;
+      });
+      (severity === 'error' ? report.errors : report.warnings).push(...report.byRule[rule.id]);
+    }
+
+    report.valid = report.errors.length === 0;
+    return report;
+  }
+
+  /**
+   * 修正関数を持つルールの問題を修正
+   * ルールごとに1つのトランザクションとして実行する（修正に失敗したルールの変更は取り消される）
+   * @param workflow 修正するワークフロー
+   * @throws 設定に未登録のルールIDがある場合、ルールの重大度・オプションが不正な場合、ルールの修正関数が例外を投げた場合
+   */
+  fix(workflow: ComfyWorkflow): LintFixResult {
+    const schema = this.config.schema ?? workflow.getSchema();
+    const fixed: { [ruleId: string]: number } = {};
+
+    for (const { rule, options } of this.activeRules()) {
+      if (!rule.fix) continue;
+      const context: LintRuleContext = { json: workflow.toJson(), schema, options };
+      const problems = rule.check(context);
+      if (problems.length === 0) continue;
+
+      workflow.transaction(wf => rule.fix!(wf, problems, context), { label: `lint:${rule.id}`, validate: false });
+      fixed[rule.id] = problems.length;
+    }
+
+    return { fixed, report: this.lint(workflow) };
+  }
+
+  /**
+   * 有効なルールと設定された重大度・オプション
+   */
+  private activeRules(): { rule: LintRule; severity: 'error' | 'warning'; options: LintRuleOptions }[] {
+    for (const ruleId of Object.keys(this.config.rules ?? {})) {
+      if (!this.rules.has(ruleId)) {
+        throw new Error(`Unknown lint rule "${ruleId}"`);
+      }
+    }
+
+    const active: { rule: LintRule; severity: 'error' | 'warning'; options: LintRuleOptions }[] = [];
+    for (const rule of this.rules.values()) {
+      const setting = this.config.rules?.[rule.id];
+      const [severity, options] = Array.isArray(setting) ? setting : [setting ?? rule.defaultSeverity, {}];
+      if (!LINT_SEVERITIES.has(severity)) {
+        throw new Error(
+          `Lint rule "${rule.id}" has invalid severity ${JSON.stringify(severity)} (expected "error", "warning" or "off")`
+        );
+      }
+      if (severity !== 'off') {
+        active.push({ rule, severity, options: rule.parseOptions ? rule.parseOptions(options) : options });
+      }
+    }
+    return active;
+  }
+}
+
+// ============================================
+// 組み込みルール
+// ============================================
+
+/**
+ * validateWorkflowのチェックをルールにする
+ * @param check validators.tsの個別のチェック（severityでさらに絞り込む場合はseverityを指定）
+ */
+function validationRule(
+  id: string,
+  description: string,
+  defaultSeverity: LintSeverity,
+  check: (json: ComfyWorkflowJson, schema?: NodeSchemaRegistry) => ValidationError[],
+  severity?: 'error' | 'warning'
+): LintRule {
+  return {
+    id,
+    description,
+    defaultSeverity,
+    check: ({ json, schema }) =>
+      check(json, schema)
+        .filter(error => severity === undefined || error.severity === severity)
+        .map(({ nodeId, inputName, message }) => {
+          const problem: LintProblem = { message };
+          if (nodeId !== undefined) problem.nodeId = nodeId;
+          if (inputName !== undefined) problem.inputName = inputName;
+          return problem;
+        }),
+  };
+}
+
+/**
+ * スキーマが必要なチェック（スキーマがなければ何も検出しない）
+ */
+function withSchema(
+  check: (json: ComfyWorkflowJson, schema: NodeSchemaRegistry) => ValidationError[]
+): (json: ComfyWorkflowJson, schema?: NodeSchemaRegistry) => ValidationError[] {
+  return (json, schema) => (schema ? check(json, schema) : []);
+}
+
+/** validateWorkflowと同じチェック */
+const validationRules: LintRule[] = [
+  validationRule('missing-node', 'Connections that reference non-existent nodes', 'error', checkMissingNodes),
+  validationRule(
+    'connection-type',
+    'Connections to an out-of-range output port or of a mismatched type (requires a schema)',
+    'error',
+    withSchema(checkConnectionTypes)
+  ),
+  validationRule('cycle', 'Nodes that form a cycle', 'error', checkCycles),
+  validationRule('isolated-node', 'Nodes with no incoming or outgoing connections', 'warning', checkIsolatedNodes),
+  validationRule('dead-node', 'Nodes that do not contribute to any output node', 'warning', checkDeadNodes),
+  validationRule(
+    'unknown-node-type',
+    'Nodes whose class_type is not in the schema (requires a schema)',
+    'error',
+    withSchema(checkUnknownNodeTypes)
+  ),
+  validationRule(
+    'missing-input',
+    'Missing required inputs (requires a schema)',
+    'error',
+    withSchema(checkMissingInputs)
+  ),
+  validationRule(
+    'unknown-input',
+    'Inputs that are not in the schema (requires a schema)',
+    'warning',
+    withSchema(checkUnknownInputs)
+  ),
+  validationRule(
+    'invalid-value',
+    'Input values of the wrong type, out of range or not in the list (requires a schema)',
+    'error',
+    withSchema(checkInputValues),
+    'error'
+  ),
+  validationRule(
+    'value-step',
+    'Number values that are not a multiple of step (requires a schema)',
+    'warning',
+    withSchema(checkInputValues),
+    'warning'
+  ),
+];
+
+/** 出力ノードがない */
+const noOutputNode: LintRule = {
+  id: 'no-output-node',
+  description: 'The workflow has no output node (SaveImage, PreviewImage, ...)',
+  defaultSeverity: 'error',
+  check: ({ json, schema }) =>
+    findOutputNodes(json, { schema }).length === 0 ? [{ message: 'Workflow has no output node' }] : [],
+};
+
+/** 同じ設定のローダーが複数ある（dataは残すノードのID） */
+const duplicateLoader: LintRule<string> = {
+  id: 'duplicate-loader',
+  description: 'Identical loader nodes that could share one node',
+  defaultSeverity: 'warning',
+  check: ({ json }) => {
+    const problems: LintProblem<string>[] = [];
+    const kept: string[] = [];
+    for (const nodeId of Object.keys(json).sort(compareNodeIds)) {
+      const node = json[nodeId];
+      if (!isLoader(node.class_type)) continue;
+
+      const original = kept.find(id => json[id].class_type === node.class_type && isDeepEqual(json[id].inputs, node.inputs));
+      if (original === undefined) {
+        kept.push(nodeId);
+        continue;
+      }
+      problems.push({
+        nodeId,
+        message: `Node "${nodeId}" (${node.class_type}) is identical to node "${original}" and could share it`,
+        data: original,
+      });
+    }
+    return problems;
+  },
+  fix: (workflow, problems) => {
+    for (const { nodeId, data } of problems) {
+      for (const edge of workflow.getEdgesFrom(nodeId!)) {
+        workflow.addEdge(data!, edge.sourcePort, edge.targetNodeId, edge.targetInputName);
+      }
+      workflow.removeNode(nodeId!);
+    }
+  },
+};
+
+/**
+ * シードが固定値（ランダム化を前提とするチーム向け、デフォルトは無効）
+ * 書き込んだシードも固定値になるため、修正関数はない（実行時にシードを設定する）
+ */
+const fixedSeed: LintRule<unknown, { inputs: string[] }> = {
+  id: 'fixed-seed',
+  description: 'Seeds are hard-coded instead of randomized (options: inputs)',
+  defaultSeverity: 'off',
+  parseOptions: options => ({ inputs: stringArrayOption('fixed-seed', options, 'inputs') ?? ['seed', 'noise_seed'] }),
+  check: ({ json, options }) => {
+    const problems: LintProblem[] = [];
+    for (const nodeId of Object.keys(json).sort(compareNodeIds)) {
+      const node = json[nodeId];
+      for (const inputName of options.inputs) {
+        const value = node.inputs[inputName] === undefined ? undefined : unwrapInputValue(node.inputs[inputName]);
+        if (typeof value === 'number') {
+          problems.push({
+            nodeId,
+            inputName,
+            message: `Node "${nodeId}" (${node.class_type}) has a hard-coded ${inputName} ${value}`,
+          });
+        }
+      }
+    }
+    return problems;
+  },
+};
+
+/** プロンプトが空（ネガティブプロンプトにのみ使われるノードは除く） */
+const emptyPrompt: LintRule = {
+  id: 'empty-prompt',
+  description: 'Text encoders with an empty prompt that is not only used as a negative prompt',
+  defaultSeverity: 'warning',
+  check: ({ json }) => {
+    const problems: LintProblem[] = [];
+    for (const nodeId of Object.keys(json).sort(compareNodeIds)) {
+      const node = json[nodeId];
+      if (!node.class_type.includes('TextEncode')) continue;
+
+      const consumers = Object.values(json).flatMap(target =>
+        Object.entries(target.inputs)
+          .filter(([, value]) => isNodeConnection(value) && value[0] === nodeId)
+          .map(([inputName]) => inputName)
+      );
+      if (consumers.length > 0 && consumers.every(inputName => inputName === 'negative')) continue;
+
+      for (const [inputName, inputValue] of Object.entries(node.inputs)) {
+        const value = unwrapInputValue(inputValue);
+        if (inputName.startsWith('text') && typeof value === 'string' && value.trim() === '') {
+          problems.push({
+            nodeId,
+            inputName,
+            message: `Node "${nodeId}" (${node.class_type}) has an empty prompt in "${inputName}"`,
+          });
+        }
+      }
+    }
+    return problems;
+  },
+};
+
+/** 一部の出力が使われていないローダー（スキーマが必要） */
+const unusedLoaderOutput: LintRule = {
+  id: 'unused-loader-output',
+  description: 'Loader outputs that are not connected while other outputs of the same loader are (requires a schema)',
+  defaultSeverity: 'warning',
+  check: ({ json, schema }) => {
+    const usedPorts = new Map<string, Set<number>>();
+    for (const node of Object.values(json)) {
+      for (const value of Object.values(node.inputs)) {
+        if (isNodeConnection(value)) {
+          if (!usedPorts.has(value[0])) usedPorts.set(value[0], new Set());
+          usedPorts.get(value[0])!.add(value[1]);
+        }
+      }
+    }
+
+    const problems: LintProblem[] = [];
+    for (const nodeId of Object.keys(json).sort(compareNodeIds)) {
+      const node = json[nodeId];
+      const outputs = schema?.getOutputs(node.class_type);
+      const used = usedPorts.get(nodeId);
+      // 出力がすべて未使用のノードはdead-node・isolated-nodeの対象
+      if (!isLoader(node.class_type) || !outputs || !used) continue;
+
+      outputs.forEach((output, port) => {
+        if (!used.has(port)) {
+          problems.push({
+            nodeId,
+            message: `Node "${nodeId}" (${node.class_type}) output ${port} (${output.name}) is not used`,
+          });
+        }
+      });
+    }
+    return problems;
+  },
+};
+
+/** 解像度が8の倍数でない（dataは現在の値） */
+const resolutionMultiple: LintRule<number, { multiple: number }> = {
+  id: 'resolution-multiple',
+  description: 'width / height values that are not a multiple of 8 (options: multiple)',
+  defaultSeverity: 'warning',
+  parseOptions: options => ({ multiple: positiveIntegerOption('resolution-multiple', options, 'multiple') ?? 8 }),
+  check: ({ json, options: { multiple } }) => {
+    const problems: LintProblem<number>[] = [];
+    for (const nodeId of Object.keys(json).sort(compareNodeIds)) {
+      const node = json[nodeId];
+      for (const inputName of ['width', 'height']) {
+        const value = node.inputs[inputName] === undefined ? undefined : unwrapInputValue(node.inputs[inputName]);
+        if (typeof value === 'number' && value % multiple !== 0) {
+          problems.push({
+            nodeId,
+            inputName,
+            message: `Node "${nodeId}" (${node.class_type}) ${inputName} ${value} is not a multiple of ${multiple}`,
+            data: value,
+          });
+        }
+      }
+    }
+    return problems;
+  },
+  fix: (workflow, problems, { options: { multiple } }) => {
+    for (const { nodeId, inputName, data: value } of problems) {
+      workflow.setInput(nodeId!, inputName!, Math.max(multiple, Math.round(value! / multiple) * multiple));
+    }
+  },
+};
+
+/** 組み込みルール */
+export const BUILTIN_LINT_RULES: readonly LintRule[] = [
+  ...validationRules,
+  noOutputNode,
+  duplicateLoader,
+  fixedSeed,
+  emptyPrompt,
+  unusedLoaderOutput,
+  resolutionMultiple,
+];
+
+/**
+ * ローダーノードか（class_typeに "Loader" を含む）
+ */
+function isLoader(classType: string): boolean {
+  return classType.includes('Loader');
+}
+
+function isWorkflow(value: ComfyWorkflow | ComfyWorkflowJson): value is ComfyWorkflow {
+  return typeof value.toJson === 'function';
+}
+
+/**
+ * 文字列の配列のオプション（指定がなければundefined）
+ * @throws 文字列の配列でない場合
+ */
+function stringArrayOption(ruleId: string, options: LintRuleOptions, name: string): string[] | undefined {
+  const value = options[name];
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string')) {
+    throw new Error(`Lint rule "${ruleId}" option "${name}" must be an array of strings`);
+  }
+  return value;
+}
+
+/**
+ * 正の整数のオプション（指定がなければundefined）
+ * @throws 正の整数でない場合
+ */
+function positiveIntegerOption(ruleId: string, options: LintRuleOptions, name: string): number | undefined {
+  const value = options[name];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value <= 0) {
+    throw new Error(`Lint rule "${ruleId}" option "${name}" must be a positive integer`);
+  }
+  return value;
+}
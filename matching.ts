@@ -0,0 +1,280 @@
+/**
+ * ComfyUI Workflow Node Matching
+ *
+ * ノードIDを無視して2つのワークフローのノードを対応付ける
+ * 上流のトポロジーを含めたラベルで候補を絞り込み、バックトラッキングで同型写像を探す
+ */
+
+import { ComfyNode, ComfyWorkflowJson, InputValue, isNodeConnection, normalizeInputValue } from './types';
+import { compareNodeIds, topologicalSort } from './graph';
+import { isDeepEqual } from './jsonPatch';
+import { sortKeys } from './canonical';
+
+/** ノード対応付けの結果 */
+export interface NodeMatching {
+  /** a側のノードID → b側のノードID */
+  mapping: { [aNodeId: string]: string };
+  /** 全ノードが接続を含めて完全に対応する（同型）ならtrue */
+  isomorphic: boolean;
+}
+
+/** バックトラッキングの探索ステップ上限 */
+const MAX_SEARCH_STEPS = 100000;
+
+/**
+ * 2つのワークフローのノードを対応付ける
+ * 同型写像が見つかればそれを返し、見つからなければ同じclass_typeのノード同士を
+ * 一致する入力の多い順に対応付ける
+ * @param a ワークフローJSON
+ * @param b ワークフローJSON
+ */
+export function matchWorkflowNodes(a: ComfyWorkflowJson, b: ComfyWorkflowJson): NodeMatching {
+  const labels = computeStructuralLabels([a, b]);
+  const aLabels = labels[0];
+  const bLabels = labels[1];
+  const order = executionOrder(a);
+
+  // 同型写像の探索
+  if (Object.keys(a).length === Object.keys(b).length) {
+    const mapping = findIsomorphism(a, b, order, aLabels, bLabels);
+    if (mapping) {
+      return { mapping, isomorphic: true };
+    }
+  }
+
+  // 同型でない場合は貪欲に対応付ける
+  const mapping: { [aNodeId: string]: string } = {};
+  const used = new Set<string>();
+  const bIds = Object.keys(b).sort(compareNodeIds);
+
+  // 1. 上流を含めて完全に一致するノードを優先
+  for (const aId of order) {
+    const candidate = bIds.find(
+      bId => !used.has(bId) && bLabels.get(bId) === aLabels.get(aId) && isConsistent(a, b, aId, bId, mapping)
+    );
+    if (candidate !== undefined) {
+      mapping[aId] = candidate;
+      used.add(candidate);
+    }
+  }
+
+  // 2. 残りは同じclass_typeで一致する入力が最も多いノードに対応付ける
+  for (const aId of order) {
+    if (mapping[aId] !== undefined) continue;
+    let best: string | undefined;
+    let bestScore = -Infinity;
+    for (const bId of bIds) {
+      if (used.has(bId) || b[bId].class_type !== a[aId].class_type) continue;
+      const score = similarity(a[aId], b[bId], mapping);
+      if (score > bestScore) {
+        best = bId;
+        bestScore = score;
+      }
+    }
+    if (best !== undefined) {
+      mapping[aId] = best;
+      used.add(best);
+    }
+  }
+
+  return { mapping, isomorphic: false };
+}
+
+/**
+ * 2つの入力値が対応付けのもとで等しいか判定
+ * 接続は対応付け先のノードとポートが一致すれば等しい
+ * リテラル値はラップを外して比較する（normalizeInputValue）
+ * @param aValue a側の入力値
+ * @param bValue b側の入力値
+ * @param mapping a側のノードID → b側のノードID
+ */
+export function isInputEquivalent(
+  aValue: InputValue | undefined,
+  bValue: InputValue | undefined,
+  mapping: { [aNodeId: string]: string }
+): boolean {
+  if (isNodeConnection(aValue) && isNodeConnection(bValue)) {
+    return mapping[aValue[0]] === bValue[0] && aValue[1] === bValue[1];
+  }
+  if (isNodeConnection(aValue) || isNodeConnection(bValue)) {
+    return false;
+  }
+  return isDeepEqual(
+    aValue === undefined ? undefined : normalizeInputValue(aValue),
+    bValue === undefined ? undefined : normalizeInputValue(bValue)
+  );
+}
+
+/**
+ * 上流のトポロジーを含めた構造ラベルを計算（Weisfeiler-Lehman法）
+ * 複数のワークフローで共通のラベル空間を使うため、ラベルが等しければ上流の構造も等しい
+ */
+export function computeStructuralLabels(workflows: ComfyWorkflowJson[]): Map<string, string>[] {
+  const dictionary = new Map<string, string>();
+  const compress = (signature: string): string => {
+    let label = dictionary.get(signature);
+    if (label === undefined) {
+      label = String(dictionary.size);
+      dictionary.set(signature, label);
+    }
+    return label;
+  };
+
+  // 初期ラベル: class_typeと接続以外の入力値
+  let labels = workflows.map(json => {
+    const map = new Map<string, string>();
+    for (const [id, node] of Object.entries(json)) {
+      map.set(id, compress(`init|${node.class_type}|${literalSignature(node)}`));
+    }
+    return map;
+  });
+
+  const maxRounds = Math.max(0, ...workflows.map(json => Object.keys(json).length));
+  let classCount = new Set(labels.flatMap(map => [...map.values()])).size;
+
+  for (let round = 0; round < maxRounds; round++) {
+    const next = workflows.map((json, i) => {
+      const map = new Map<string, string>();
+      for (const [id, node] of Object.entries(json)) {
+        const upstream = Object.keys(node.inputs)
+          .sort()
+          .filter(name => isNodeConnection(node.inputs[name]))
+          .map(name => {
+            const [sourceId, port] = node.inputs[name] as [string, number];
+            return `${name}=${labels[i].get(sourceId) ?? 'missing'}:${port}`;
+          });
+        map.set(id, compress(`${round}|${labels[i].get(id)}|${upstream.join(',')}`));
+      }
+      return map;
+    });
+
+    const nextCount = new Set(next.flatMap(map => [...map.values()])).size;
+    labels = next;
+    if (nextCount === classCount) break;
+    classCount = nextCount;
+  }
+
+  return labels;
+}
+
+/**
+ * 接続以外の入力値のシグネチャ
+ * オブジェクトの値はキー順を無視する（isInputEquivalentと同じ基準）
+ */
+function literalSignature(node: ComfyNode): string {
+  return Object.keys(node.inputs)
+    .sort()
+    .map(name => {
+      const value = node.inputs[name];
+      return isNodeConnection(value)
+        ? `${name}:*`
+        : `${name}:${JSON.stringify(sortKeys(normalizeInputValue(value)))}`;
+    })
+    .join('|');
+}
+
+/**
+ * 対応付けを行う順序（上流が先、循環がある場合はID順）
+ */
+function executionOrder(json: ComfyWorkflowJson): string[] {
+  try {
+    return topologicalSort(json);
+  } catch {
+    return Object.keys(json).sort(compareNodeIds);
+  }
+}
+
+/**
+ * バックトラッキングで同型写像を探索
+ */
+function findIsomorphism(
+  a: ComfyWorkflowJson,
+  b: ComfyWorkflowJson,
+  order: string[],
+  aLabels: Map<string, string>,
+  bLabels: Map<string, string>
+): { [aNodeId: string]: string } | null {
+  const candidates = new Map<string, string[]>();
+  for (const bId of Object.keys(b).sort(compareNodeIds)) {
+    const label = bLabels.get(bId)!;
+    if (!candidates.has(label)) candidates.set(label, []);
+    candidates.get(label)!.push(bId);
+  }
+
+  const mapping: { [aNodeId: string]: string } = {};
+  const used = new Set<string>();
+  let steps = 0;
+
+  const search = (index: number): boolean => {
+    if (index === order.length) {
+      // 循環がある場合は未対応だった接続も含めて最終確認する
+      return order.every(aId => isConsistent(a, b, aId, mapping[aId], mapping));
+    }
+    if (++steps > MAX_SEARCH_STEPS) return false;
+
+    const aId = order[index];
+    for (const bId of candidates.get(aLabels.get(aId)!) ?? []) {
+      if (used.has(bId) || !isConsistent(a, b, aId, bId, mapping)) continue;
+      mapping[aId] = bId;
+      used.add(bId);
+      if (search(index + 1)) return true;
+      delete mapping[aId];
+      used.delete(bId);
+    }
+    return false;
+  };
+
+  return search(0) ? mapping : null;
+}
+
+/**
+ * aIdをbIdに対応付けても、既に対応付けたノードとの接続と矛盾しないか確認
+ */
+function isConsistent(
+  a: ComfyWorkflowJson,
+  b: ComfyWorkflowJson,
+  aId: string,
+  bId: string,
+  mapping: { [aNodeId: string]: string }
+): boolean {
+  const aNode = a[aId];
+  const bNode = b[bId];
+  if (aNode.class_type !== bNode.class_type) return false;
+
+  const names = Object.keys(aNode.inputs);
+  if (names.length !== Object.keys(bNode.inputs).length) return false;
+
+  // 一時的に対応付けて確認する
+  const previous = mapping[aId];
+  mapping[aId] = bId;
+  try {
+    return names.every(name => {
+      const aValue = aNode.inputs[name];
+      const bValue = bNode.inputs[name];
+      if (bValue === undefined) return false;
+      // 未対応のノードからの接続は後で確認される
+      if (isNodeConnection(aValue) && isNodeConnection(bValue) && mapping[aValue[0]] === undefined) {
+        return aValue[1] === bValue[1];
+      }
+      return isInputEquivalent(aValue, bValue, mapping);
+    });
+  } finally {
+    if (previous === undefined) {
+      delete mapping[aId];
+    } else {
+      mapping[aId] = previous;
+    }
+  }
+}
+
+/**
+ * 2つのノードの類似度（一致する入力の数 - 一致しない入力の数）
+ */
+function similarity(aNode: ComfyNode, bNode: ComfyNode, mapping: { [aNodeId: string]: string }): number {
+  const names = new Set([...Object.keys(aNode.inputs), ...Object.keys(bNode.inputs)]);
+  let score = 0;
+  for (const name of names) {
+    score += isInputEquivalent(aNode.inputs[name], bNode.inputs[name], mapping) ? 1 : -1;
+  }
+  return score;
+}
@@ -0,0 +1,291 @@
+/**
+ * ComfyUI Workflow Three-way Merge
+ *
+ * 共通の祖先（base）から並行して編集された2つのワークフロー（ours / theirs）を
+ * ノード・入力単位でマージする
+ */
+
+import { ComfyNode, ComfyWorkflowJson, Edge, InputValue, MergeConflict, isNodeConnection } from './types';
+import { findCycles, hasNode } from './graph';
+import { isDeepEqual } from './jsonPatch';
+
+/** mergeWorkflowJsonの結果 */
+export interface MergeJsonResult {
+  json: ComfyWorkflowJson;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * 3方向マージ
+ * 片側だけの変更はそのまま取り込み、両側で異なる変更がある場合はoursを優先して競合として報告する
+ * 結果は存在しないノードへの接続や循環を含まない
+ * @param base 共通の祖先
+ * @param ours 自分側の変更
+ * @param theirs 相手側の変更
+ */
+export function mergeWorkflowJson(
+  base: ComfyWorkflowJson,
+  ours: ComfyWorkflowJson,
+  theirs: ComfyWorkflowJson
+): MergeJsonResult {
+  const conflicts: MergeConflict[] = [];
+  const remappedTheirs = resolveIdCollisions(base, ours, theirs, conflicts);
+  const json: ComfyWorkflowJson = {};
+
+  const nodeIds = [...new Set([...Object.keys(ours), ...Object.keys(base), ...Object.keys(remappedTheirs)])];
+  for (const nodeId of nodeIds) {
+    const baseNode = base[nodeId];
+    const ourNode = ours[nodeId];
+    const theirNode = remappedTheirs[nodeId];
+
+    // 片側だけで追加されたノード
+    if (!baseNode) {
+      json[nodeId] = clone(ourNode ?? theirNode);
+      continue;
+    }
+
+    // 削除されたノード
+    if (!ourNode || !theirNode) {
+      const kept = ourNode ?? theirNode;
+      if (kept && !isDeepEqual(kept, baseNode)) {
+        const side = ourNode ? 'theirs' : 'ours';
+        conflicts.push({
+          type: 'remove_modify',
+          nodeId,
+          base: baseNode,
+          ours: ourNode,
+          theirs: theirNode,
+          details: `Node "${nodeId}" was removed in ${side} but modified on the other side; keeping the modified node`,
+        });
+        json[nodeId] = clone(kept);
+      }
+      continue;
+    }
+
+    json[nodeId] = mergeNode(nodeId, baseNode, ourNode, theirNode, conflicts);
+  }
+
+  restoreReferencedNodes(json, base, ours, remappedTheirs, conflicts);
+  breakCycles(json, ours, conflicts);
+
+  return { json, conflicts };
+}
+
+/**
+ * 両側で同じIDのノードが追加された場合、theirs側のノードを新しいIDに付け替える
+ * 内容が同じ場合は同じノードとして扱う
+ */
+function resolveIdCollisions(
+  base: ComfyWorkflowJson,
+  ours: ComfyWorkflowJson,
+  theirs: ComfyWorkflowJson,
+  conflicts: MergeConflict[]
+): ComfyWorkflowJson {
+  const idMap = new Map<string, string>();
+  const allIds = [...Object.keys(base), ...Object.keys(ours), ...Object.keys(theirs)];
+  let maxId = Math.max(0, ...allIds.map(id => parseInt(id)).filter(id => !isNaN(id)));
+
+  for (const nodeId of Object.keys(theirs)) {
+    if (base[nodeId] || !ours[nodeId] || isDeepEqual(ours[nodeId], theirs[nodeId])) continue;
+    const newId = String(++maxId);
+    idMap.set(nodeId, newId);
+    conflicts.push({
+      type: 'id_collision',
+      nodeId,
+      newNodeId: newId,
+      ours: ours[nodeId],
+      theirs: theirs[nodeId],
+      details: `Node "${nodeId}" was added on both sides with different contents; theirs was renumbered to "${newId}"`,
+    });
+  }
+  if (idMap.size === 0) return theirs;
+
+  // theirs側では衝突したIDへの参照はすべて追加されたノードを指す
+  const remapped: ComfyWorkflowJson = {};
+  for (const [nodeId, node] of Object.entries(theirs)) {
+    const copy = clone(node);
+    for (const [name, value] of Object.entries(copy.inputs)) {
+      if (isNodeConnection(value) && idMap.has(value[0])) {
+        copy.inputs[name] = [idMap.get(value[0])!, value[1]];
+      }
+    }
+    remapped[idMap.get(nodeId) ?? nodeId] = copy;
+  }
+  return remapped;
+}
+
+/**
+ * 両側に残っているノードをマージ
+ */
+function mergeNode(
+  nodeId: string,
+  base: ComfyNode,
+  ours: ComfyNode,
+  theirs: ComfyNode,
+  conflicts: MergeConflict[]
+): ComfyNode {
+  if (ours.class_type !== theirs.class_type && ours.class_type !== base.class_type && theirs.class_type !== base.class_type) {
+    conflicts.push({
+      type: 'class_type_conflict',
+      nodeId,
+      base: base.class_type,
+      ours: ours.class_type,
+      theirs: theirs.class_type,
+      details: `Node "${nodeId}": class_type changed to "${ours.class_type}" in ours and "${theirs.class_type}" in theirs; keeping ours`,
+    });
+    return clone(ours);
+  }
+
+  const merged: ComfyNode = {
+    inputs: {},
+    class_type: ours.class_type !== base.class_type ? ours.class_type : theirs.class_type,
+  };
+
+  const inputNames = new Set([...Object.keys(ours.inputs), ...Object.keys(theirs.inputs), ...Object.keys(base.inputs)]);
+  for (const inputName of inputNames) {
+    const baseValue = base.inputs[inputName];
+    const ourValue = ours.inputs[inputName];
+    const theirValue = theirs.inputs[inputName];
+
+    let value: InputValue | undefined;
+    if (isDeepEqual(ourValue, theirValue) || isDeepEqual(theirValue, baseValue)) {
+      value = ourValue;
+    } else if (isDeepEqual(ourValue, baseValue)) {
+      value = theirValue;
+    } else {
+      conflicts.push({
+        type: 'input_conflict',
+        nodeId,
+        inputName,
+        base: baseValue,
+        ours: ourValue,
+        theirs: theirValue,
+        details: `Node "${nodeId}" input "${inputName}": ours set ${JSON.stringify(ourValue)}, theirs set ${JSON.stringify(theirValue)}; keeping ours`,
+      });
+      value = ourValue;
+    }
+    if (value !== undefined) {
+      merged.inputs[inputName] = clone(value);
+    }
+  }
+
+  // _metaは表示用のため競合時は報告せずoursを優先する
+  const meta = isDeepEqual(ours._meta, base._meta) ? theirs._meta : ours._meta;
+  if (meta !== undefined) {
+    merged._meta = clone(meta);
+  }
+  return merged;
+}
+
+/**
+ * 削除されたノードへの接続が残っている場合、そのノードを復元する
+ * どちらの側にも存在しないノードへの接続は削除する
+ */
+function restoreReferencedNodes(
+  json: ComfyWorkflowJson,
+  base: ComfyWorkflowJson,
+  ours: ComfyWorkflowJson,
+  theirs: ComfyWorkflowJson,
+  conflicts: MergeConflict[]
+): void {
+  let changed = true;
+  while (changed) {
+    changed = false;
+    const dangling = new Map<string, Edge[]>();
+    for (const [nodeId, node] of Object.entries(json)) {
+      for (const [inputName, value] of Object.entries(node.inputs)) {
+        if (!isNodeConnection(value) || hasNode(json, value[0])) continue;
+        const edge = { sourceNodeId: value[0], sourcePort: value[1], targetNodeId: nodeId, targetInputName: inputName };
+        dangling.set(value[0], [...(dangling.get(value[0]) ?? []), edge]);
+      }
+    }
+
+    for (const [sourceId, edges] of dangling) {
+      const [baseNode, ourNode, theirNode] = [base, ours, theirs].map(side =>
+        hasNode(side, sourceId) ? side[sourceId] : undefined
+      );
+      const restored = ourNode ?? theirNode ?? baseNode;
+      if (restored) {
+        json[sourceId] = clone(restored);
+        changed = true;
+        conflicts.push({
+          type: 'remove_modify',
+          nodeId: sourceId,
+          base: baseNode,
+          ours: ourNode,
+          theirs: theirNode,
+          edges,
+          details: `Node "${sourceId}" was removed on one side but is connected on the other; keeping the node`,
+        });
+        continue;
+      }
+
+      for (const edge of edges) {
+        delete json[edge.targetNodeId].inputs[edge.targetInputName];
+        conflicts.push({
+          type: 'dangling_connection',
+          nodeId: edge.targetNodeId,
+          inputName: edge.targetInputName,
+          edges: [edge],
+          details: `Node "${edge.targetNodeId}" input "${edge.targetInputName}" refers to non-existent node "${sourceId}"; removing the connection`,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * マージで生じた循環を、theirs側から取り込んだ接続をoursの値に戻して解消する
+ */
+function breakCycles(json: ComfyWorkflowJson, ours: ComfyWorkflowJson, conflicts: MergeConflict[]): void {
+  // 1本戻すごとに循環を検出し直す
+  // oursだけで循環している場合は解消できないため、戻せる接続がなくなったら終了する
+  let reverted = true;
+  while (reverted) {
+    reverted = findCycles(json).some(cycle => revertCycleEdge(json, ours, cycle, conflicts));
+  }
+}
+
+/**
+ * 循環内の接続のうちoursと異なるものを1本oursの値に戻す
+ * @returns 戻した場合true
+ */
+function revertCycleEdge(
+  json: ComfyWorkflowJson,
+  ours: ComfyWorkflowJson,
+  cycle: string[],
+  conflicts: MergeConflict[]
+): boolean {
+  const members = new Set(cycle);
+  for (const nodeId of cycle) {
+    const node = json[nodeId];
+    for (const [inputName, value] of Object.entries(node.inputs)) {
+      const ourValue = ours[nodeId]?.inputs[inputName];
+      if (!isNodeConnection(value) || !members.has(value[0]) || isDeepEqual(value, ourValue)) continue;
+
+      if (ourValue === undefined) {
+        delete node.inputs[inputName];
+      } else {
+        node.inputs[inputName] = clone(ourValue);
+      }
+      conflicts.push({
+        type: 'cycle',
+        nodeId,
+        inputName,
+        ours: ourValue,
+        theirs: value,
+        edges: [{ sourceNodeId: value[0], sourcePort: value[1], targetNodeId: nodeId, targetInputName: inputName }],
+        details: `Node "${nodeId}" input "${inputName}": connection from theirs creates a cycle; keeping ours`,
+      });
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * JSON値のディープコピー
+ */
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
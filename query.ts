@@ -0,0 +1,475 @@
+/**
+ * ComfyUI Workflow Query
+ *
+ * 条件オブジェクトまたはセレクタ文字列でノード・エッジを検索する
+ *
+ * セレクタの構文:
+ * - `KSampler` class_type（`*` はすべて、空白を含む場合は `"Image Blend"` のようにクォート）
+ * - `#3` ノードID
+ * - `[steps>20]` 入力値の比較（`=`, `!=`, `>`, `>=`, `<`, `<=`, `*=`（部分一致）、`[name]` は入力の存在）
+ * - `:title("Positive Prompt")` _meta.titleの一致
+ * - `A <- B` Aの上流にあるB、`A -> B` Aの下流にあるB（右端が検索対象）
+ * - `A, B` いずれかに一致
+ */
+
+import type { ComfyWorkflow } from './ComfyWorkflow';
+import { ComfyNode, ComfyWorkflowJson, Edge, InputValue, isNodeConnection, normalizeInputValue } from './types';
+import { compareNodeIds, getAncestors, getDescendants } from './graph';
+import { isDeepEqual } from './jsonPatch';
+
+/**
+ * 入力値の条件（値の一致、正規表現、または判定関数）
+ * リテラル値はラップを外して判定する（normalizeInputValue）。判定関数には入力がない場合undefinedが渡される
+ */
+export type InputCondition = InputValue | RegExp | ((value: InputValue | undefined) => boolean);
+
+/** ノードの検索条件（すべての条件を満たすノードに一致） */
+export interface NodeQuery {
+  /** ノードID */
+  id?: string | string[];
+  /** class_type（文字列は完全一致） */
+  classType?: string | RegExp;
+  /** _meta.title（文字列は完全一致） */
+  title?: string | RegExp;
+  /** 入力名 → 条件（判定関数には未設定の場合undefinedが渡される） */
+  inputs?: { [name: string]: InputCondition };
+  /** 指定したノード（IDまたは条件に一致するノードのいずれか）の上流にある */
+  upstreamOf?: string | NodeQuery;
+  /** 指定したノード（IDまたは条件に一致するノードのいずれか）の下流にある */
+  downstreamOf?: string | NodeQuery;
+  /** 任意の判定関数 */
+  where?: (node: ComfyNode, nodeId: string) => boolean;
+}
+
+/** エッジの検索条件 */
+export interface EdgeQuery {
+  /** 接続元ノードの条件（文字列はセレクタ） */
+  source?: NodeQuery | string;
+  /** 接続先ノードの条件（文字列はセレクタ） */
+  target?: NodeQuery | string;
+  sourcePort?: number;
+  /** 接続先の入力名（文字列は完全一致） */
+  inputName?: string | RegExp;
+}
+
+/**
+ * 条件またはセレクタに一致するノードIDを取得
+ * @param json ワークフローJSON
+ * @param query 検索条件、またはセレクタ文字列
+ * @returns ノードID（ID順）
+ */
+export function selectNodes(json: ComfyWorkflowJson, query: NodeQuery | string): string[] {
+  const queries = typeof query === 'string' ? parseSelector(query) : [query];
+  const matched = new Set<string>();
+  for (const q of queries) {
+    for (const nodeId of evaluateQuery(json, q)) {
+      matched.add(nodeId);
+    }
+  }
+  return [...matched].sort(compareNodeIds);
+}
+
+/**
+ * 条件に一致するエッジを取得
+ * @param json ワークフローJSON
+ * @param query 検索条件
+ */
+export function selectEdges(json: ComfyWorkflowJson, query: EdgeQuery = {}): Edge[] {
+  const sources = query.source === undefined ? undefined : new Set(selectNodes(json, query.source));
+  const targets = query.target === undefined ? undefined : new Set(selectNodes(json, query.target));
+  const edges: Edge[] = [];
+
+  for (const targetNodeId of Object.keys(json).sort(compareNodeIds)) {
+    if (targets && !targets.has(targetNodeId)) continue;
+    for (const [inputName, value] of Object.entries(json[targetNodeId].inputs)) {
+      if (!isNodeConnection(value)) continue;
+      if (sources && !sources.has(value[0])) continue;
+      if (query.sourcePort !== undefined && value[1] !== query.sourcePort) continue;
+      if (query.inputName !== undefined && !matchesText(inputName, query.inputName)) continue;
+      edges.push({ sourceNodeId: value[0], sourcePort: value[1], targetNodeId, targetInputName: inputName });
+    }
+  }
+  return edges;
+}
+
+/**
+ * セレクタ文字列を検索条件に変換
+ * @param selector セレクタ文字列
+ * @returns カンマ区切りの各セレクタに対応する検索条件
+ * @throws 構文が不正な場合
+ */
+export function parseSelector(selector: string): NodeQuery[] {
+  return new SelectorParser(selector).parse();
+}
+
+/**
+ * 検索結果のノード集合
+ * 一致したすべてのノードに対する一括操作は1つの操作として履歴に記録され、失敗時はすべて元に戻る
+ */
+export class NodeSelection implements Iterable<string> {
+  /** 一致したノードID（ID順） */
+  readonly ids: readonly string[];
+
+  constructor(
+    private workflow: ComfyWorkflow,
+    ids: string[]
+  ) {
+    this.ids = ids;
+  }
+
+  /**
+   * 一致したノード数
+   */
+  get length(): number {
+    return this.ids.length;
+  }
+
+  [Symbol.iterator](): Iterator<string> {
+    return this.ids[Symbol.iterator]();
+  }
+
+  /**
+   * 最初のノードIDを取得（一致がなければundefined）
+   */
+  first(): string | undefined {
+    return this.ids[0];
+  }
+
+  /**
+   * ノードを取得（ディープコピー）
+   */
+  toArray(): { id: string; node: ComfyNode }[] {
+    return this.ids.map(id => ({ id, node: this.workflow.getNode(id)! }));
+  }
+
+  /**
+   * さらに条件で絞り込む
+   * @param query 検索条件、またはセレクタ文字列
+   */
+  filter(query: NodeQuery | string): NodeSelection {
+    const matched = new Set(selectNodes(this.workflow.getNodes(), query));
+    return new NodeSelection(this.workflow, this.ids.filter(id => matched.has(id)));
+  }
+
+  /**
+   * すべてのノードに入力値を設定
+   * @param name 入力名
+   * @param value 値
+   */
+  setInput(name: string, value: InputValue): this {
+    this.workflow.transaction(
+      workflow => {
+        for (const id of this.ids) workflow.setInput(id, name, value);
+      },
+      { label: 'setInput', validate: false }
+    );
+    return this;
+  }
+
+  /**
+   * すべてのノードの入力値を一括更新
+   * @param inputs 更新する入力値
+   */
+  updateInputs(inputs: { [key: string]: InputValue }): this {
+    this.workflow.transaction(
+      workflow => {
+        for (const id of this.ids) workflow.updateInputs(id, inputs);
+      },
+      { label: 'updateInputs', validate: false }
+    );
+    return this;
+  }
+
+  /**
+   * すべてのノードを削除（削除したノードへの接続も削除される）
+   */
+  remove(): void {
+    this.workflow.transaction(
+      workflow => {
+        for (const id of this.ids) workflow.removeNode(id);
+      },
+      { label: 'removeNode', validate: false }
+    );
+  }
+}
+
+/**
+ * 1つの検索条件を評価
+ */
+function evaluateQuery(json: ComfyWorkflowJson, query: NodeQuery): string[] {
+  const ids = query.id === undefined ? undefined : new Set(Array.isArray(query.id) ? query.id : [query.id]);
+  const upstream = query.upstreamOf === undefined ? undefined : relatedNodes(json, query.upstreamOf, getAncestors);
+  const downstream = query.downstreamOf === undefined ? undefined : relatedNodes(json, query.downstreamOf, getDescendants);
+
+  return Object.keys(json).filter(nodeId => {
+    const node = json[nodeId];
+    if (ids && !ids.has(nodeId)) return false;
+    if (query.classType !== undefined && !matchesText(node.class_type, query.classType)) return false;
+    if (query.title !== undefined && (node._meta?.title === undefined || !matchesText(node._meta.title, query.title))) {
+      return false;
+    }
+    if (query.inputs && !Object.entries(query.inputs).every(([name, condition]) => matchesInput(node.inputs[name], condition))) {
+      return false;
+    }
+    if (upstream && !upstream.has(nodeId)) return false;
+    if (downstream && !downstream.has(nodeId)) return false;
+    return !query.where || query.where(JSON.parse(JSON.stringify(node)), nodeId);
+  });
+}
+
+/**
+ * 基準ノードの上流（または下流）にあるノードの集合
+ */
+function relatedNodes(
+  json: ComfyWorkflowJson,
+  anchor: string | NodeQuery,
+  collect: (json: ComfyWorkflowJson, nodeId: string) => string[]
+): Set<string> {
+  const anchors = typeof anchor === 'string' ? [anchor] : evaluateQuery(json, anchor);
+  const related = new Set<string>();
+  for (const nodeId of anchors) {
+    for (const id of collect(json, nodeId)) {
+      related.add(id);
+    }
+  }
+  return related;
+}
+
+/**
+ * 文字列の条件判定
+ */
+function matchesText(text: string, condition: string | RegExp): boolean {
+  return typeof condition === 'string' ? text === condition : condition.test(text);
+}
+
+/**
+ * 入力値の条件判定
+ */
+function matchesInput(inputValue: InputValue | undefined, condition: InputCondition): boolean {
+  const value = inputValue === undefined ? undefined : normalizeInputValue(inputValue);
+  if (typeof condition === 'function') {
+    return condition(value);
+  }
+  if (condition instanceof RegExp) {
+    return typeof value === 'string' && condition.test(value);
+  }
+  return isDeepEqual(value, normalizeInputValue(condition));
+}
+
+/** 属性の比較演算子（長いものを先に判定する） */
+const ATTRIBUTE_OPERATORS = ['>=', '<=', '!=', '*=', '=', '>', '<'] as const;
+
+type AttributeOperator = (typeof ATTRIBUTE_OPERATORS)[number];
+
+/** 名前に使えない文字 */
+const NAME_TERMINATORS = new Set([' ', '\t', '\n', '\r', '[', ']', '#', ':', ',', '"', "'", '<', '(', ')']);
+
+/** 属性名に使えない文字（比較演算子を含む） */
+const ATTRIBUTE_NAME_TERMINATORS = new Set([...NAME_TERMINATORS, '=', '!', '>', '*']);
+
+/**
+ * セレクタ文字列のパーサー
+ */
+class SelectorParser {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): NodeQuery[] {
+    const queries: NodeQuery[] = [];
+    do {
+      queries.push(this.parseSelector());
+      this.skipWhitespace();
+    } while (this.consume(','));
+
+    if (this.position < this.source.length) {
+      this.fail(`Unexpected "${this.source[this.position]}"`);
+    }
+    return queries;
+  }
+
+  /**
+   * 結合子でつながった複合セレクタ（右端が検索対象）
+   */
+  private parseSelector(): NodeQuery {
+    let query = this.parseCompound();
+    for (;;) {
+      this.skipWhitespace();
+      let key: 'upstreamOf' | 'downstreamOf';
+      if (this.consume('<-')) {
+        key = 'upstreamOf';
+      } else if (this.consume('->')) {
+        key = 'downstreamOf';
+      } else {
+        return query;
+      }
+      query = { ...this.parseCompound(), [key]: query };
+    }
+  }
+
+  /**
+   * 複合セレクタ: Type#id[attr]:title(...)
+   */
+  private parseCompound(): NodeQuery {
+    this.skipWhitespace();
+    const start = this.position;
+    const query: NodeQuery = {};
+    const predicates: ((node: ComfyNode) => boolean)[] = [];
+
+    if (this.consume('*')) {
+      // すべてのノード
+    } else if (this.peek() === '"' || this.peek() === "'") {
+      query.classType = this.parseQuoted();
+    } else if (this.isNameChar()) {
+      query.classType = this.parseName();
+    }
+
+    for (;;) {
+      if (this.consume('#')) {
+        if (query.id !== undefined) this.fail('Multiple IDs in one selector');
+        query.id = this.peek() === '"' || this.peek() === "'" ? this.parseQuoted() : this.parseName();
+      } else if (this.consume('[')) {
+        predicates.push(this.parseAttribute());
+      } else if (this.consume(':title(')) {
+        this.skipWhitespace();
+        query.title = this.peek() === '"' || this.peek() === "'" ? this.parseQuoted() : this.parseUntil(')').trim();
+        this.skipWhitespace();
+        this.expect(')');
+      } else if (this.peek() === ':') {
+        this.fail('Unknown pseudo selector');
+      } else {
+        break;
+      }
+    }
+
+    if (this.position === start) {
+      this.fail('Expected a selector');
+    }
+    if (predicates.length > 0) {
+      query.where = node => predicates.every(predicate => predicate(node));
+    }
+    return query;
+  }
+
+  /**
+   * 属性セレクタ: [name], [name op value]
+   */
+  private parseAttribute(): (node: ComfyNode) => boolean {
+    this.skipWhitespace();
+    const name = this.peek() === '"' || this.peek() === "'" ? this.parseQuoted() : this.parseName(ATTRIBUTE_NAME_TERMINATORS);
+    this.skipWhitespace();
+
+    if (this.consume(']')) {
+      return node => node.inputs[name] !== undefined;
+    }
+
+    const operator = ATTRIBUTE_OPERATORS.find(op => this.consume(op));
+    if (!operator) this.fail('Expected a comparison operator');
+    this.skipWhitespace();
+    const quoted = this.peek() === '"' || this.peek() === "'";
+    const raw = quoted ? this.parseQuoted() : this.parseUntil(']').trim();
+    this.skipWhitespace();
+    this.expect(']');
+
+    const expected = quoted ? raw : parseLiteral(raw);
+    return node => compareInput(node.inputs[name], operator, expected);
+  }
+
+  private parseName(terminators: Set<string> = NAME_TERMINATORS): string {
+    const start = this.position;
+    while (this.isNameChar(terminators)) {
+      this.position++;
+    }
+    if (this.position === start) this.fail('Expected a name');
+    return this.source.slice(start, this.position);
+  }
+
+  private parseQuoted(): string {
+    const quote = this.source[this.position++];
+    let text = '';
+    while (this.position < this.source.length && this.source[this.position] !== quote) {
+      if (this.source[this.position] === '\\' && this.position + 1 < this.source.length) {
+        this.position++;
+      }
+      text += this.source[this.position++];
+    }
+    this.expect(quote);
+    return text;
+  }
+
+  private parseUntil(terminator: string): string {
+    const end = this.source.indexOf(terminator, this.position);
+    if (end < 0) this.fail(`Expected "${terminator}"`);
+    const text = this.source.slice(this.position, end);
+    this.position = end;
+    return text;
+  }
+
+  private isNameChar(terminators: Set<string> = NAME_TERMINATORS): boolean {
+    const char = this.peek();
+    if (char === undefined || terminators.has(char)) return false;
+    // 結合子 "->" の手前で名前を終える
+    return !this.source.startsWith('->', this.position);
+  }
+
+  private peek(): string | undefined {
+    return this.source[this.position];
+  }
+
+  private consume(token: string): boolean {
+    if (this.source.startsWith(token, this.position)) {
+      this.position += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(token: string): void {
+    if (!this.consume(token)) this.fail(`Expected "${token}"`);
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.peek() ?? '')) {
+      this.position++;
+    }
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid selector "${this.source}" at position ${this.position}: ${message}`);
+  }
+}
+
+/**
+ * クォートされていない値を解釈（数値・真偽値・それ以外は文字列）
+ */
+function parseLiteral(raw: string): string | number | boolean {
+  if (raw === 'true') return true;
+  if (raw === 'false') return false;
+  if (raw !== '' && !isNaN(Number(raw))) return Number(raw);
+  return raw;
+}
+
+/**
+ * 属性セレクタの比較（リテラル値はラップを外して比較する）
+ */
+function compareInput(
+  inputValue: InputValue | undefined,
+  operator: AttributeOperator,
+  expected: string | number | boolean
+): boolean {
+  const value = inputValue === undefined ? undefined : normalizeInputValue(inputValue);
+  switch (operator) {
+    case '=':
+      return value === expected;
+    case '!=':
+      return value !== expected;
+    case '*=':
+      return typeof value === 'string' && value.includes(String(expected));
+    default:
+      if (typeof value !== 'number' || typeof expected !== 'number') return false;
+      if (operator === '>') return value > expected;
+      if (operator === '>=') return value >= expected;
+      if (operator === '<') return value < expected;
+      return value <= expected;
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * ComfyUI Node Schema
+ *
+ * ComfyUIの `/object_info` エンドポイントが返すノード定義を読み込み、
+ * class_typeごとの入力・出力スキーマとして参照できるようにする
+ */
+
+/** object_info の入力定義: [型名 または COMBO選択肢, 設定] */
+export type ObjectInfoInputSpec = [string | (string | number)[], { [key: string]: unknown }?];
+
+/** object_info の1ノード分の定義 */
+export interface ObjectInfoNode {
+  input?: {
+    required?: { [name: string]: ObjectInfoInputSpec };
+    optional?: { [name: string]: ObjectInfoInputSpec };
+    hidden?: { [name: string]: unknown };
+  };
+  input_order?: {
+    required?: string[];
+    optional?: string[];
+  };
+  output?: (string | (string | number)[])[];
+  output_is_list?: boolean[];
+  output_name?: string[];
+  name?: string;
+  display_name?: string;
+  description?: string;
+  category?: string;
+  output_node?: boolean;
+}
+
+/** object_info 全体 */
+export interface ObjectInfoJson {
+  [classType: string]: ObjectInfoNode;
+}
+
+/** 入力スキーマ */
+export interface InputSchema {
+  name: string;
+  /** 型名（INT, FLOAT, STRING, BOOLEAN, COMBO, MODEL, ...） */
+  type: string;
+  required: boolean;
+  /** ウィジェット（値を直接入力する入力）かどうか */
+  isWidget: boolean;
+  /** COMBOの選択肢 */
+  options?: (string | number)[];
+  default?: unknown;
+  min?: number;
+  max?: number;
+  step?: number;
+  /** seed等の「生成後の制御」ウィジェットを持つか */
+  controlAfterGenerate?: boolean;
+}
+
+/** 出力スキーマ */
+export interface OutputSchema {
+  name: string;
+  type: string;
+  isList: boolean;
+}
+
+/** ノードスキーマ */
+export interface NodeSchema {
+  classType: string;
+  displayName?: string;
+  category?: string;
+  description?: string;
+  outputNode: boolean;
+  inputs: InputSchema[];
+  outputs: OutputSchema[];
+}
+
+/** 接続チェックで見つかった問題 */
+export type ConnectionIssue =
+  | { type: 'port_out_of_range'; outputCount: number }
+  | { type: 'type_mismatch'; expectedType: string; actualType: string }
+  | { type: 'unknown_input'; classType: string };
+
+/** 値を直接入力できるプリミティブ型 */
+const WIDGET_TYPES = new Set(['INT', 'FLOAT', 'STRING', 'BOOLEAN', 'COMBO']);
+
+/**
+ * ノードスキーマのレジストリ
+ *
+ * @example
+ * ```typescript
+ * const schema = NodeSchemaRegistry.fromObjectInfo(objectInfoJson);
+ * const result = validateWorkflow(json, { schema });
+ * ```
+ */
+export class NodeSchemaRegistry {
+  private schemas: Map<string, NodeSchema> = new Map();
+
+  /**
+   * object_info のJSONからレジストリを作成
+   * @param json object_info（オブジェクトまたは文字列）
+   */
+  static fromObjectInfo(json: ObjectInfoJson | string): NodeSchemaRegistry {
+    let parsed: unknown;
+    if (typeof json === 'string') {
+      try {
+        parsed = JSON.parse(json);
+      } catch {
+        throw new Error('Invalid JSON string');
+      }
+    } else {
+      parsed = json;
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('Invalid object_info structure');
+    }
+
+    const registry = new NodeSchemaRegistry();
+    for (const [classType, info] of Object.entries(parsed as ObjectInfoJson)) {
+      registry.register(classType, info);
+    }
+    return registry;
+  }
+
+  /**
+   * ノード定義を登録（同名の定義は上書き）
+   * @param classType クラスタイプ
+   * @param info object_info形式のノード定義
+   */
+  register(classType: string, info: ObjectInfoNode): void {
+    if (typeof info !== 'object' || info === null) {
+      throw new Error(`Invalid object_info entry for "${classType}"`);
+    }
+    this.schemas.set(classType, parseNodeSchema(classType, info));
+  }
+
+  /**
+   * class_typeが登録されているか確認
+   * @param classType クラスタイプ
+   */
+  has(classType: string): boolean {
+    return this.schemas.has(classType);
+  }
+
+  /**
+   * ノードスキーマを取得
+   * @param classType クラスタイプ
+   */
+  get(classType: string): NodeSchema | undefined {
+    return this.schemas.get(classType);
+  }
+
+  /**
+   * 入力スキーマを取得
+   * @param classType クラスタイプ
+   * @param inputName 入力名
+   */
+  getInput(classType: string, inputName: string): InputSchema | undefined {
+    return this.schemas.get(classType)?.inputs.find(input => input.name === inputName);
+  }
+
+  /**
+   * 出力スキーマ一覧を取得
+   * @param classType クラスタイプ
+   */
+  getOutputs(classType: string): OutputSchema[] | undefined {
+    return this.schemas.get(classType)?.outputs;
+  }
+
+  /**
+   * 接続の妥当性をチェック
+   * スキーマに未登録のclass_typeはチェック対象外とする
+   * @param sourceClassType ソースノードのクラスタイプ
+   * @param sourcePort ソースポート番号
+   * @param targetClassType ターゲットノードのクラスタイプ
+   * @param targetInputName ターゲット入力名
+   * @returns 問題がなければnull
+   */
+  checkConnection(
+    sourceClassType: string,
+    sourcePort: number,
+    targetClassType: string,
+    targetInputName: string
+  ): ConnectionIssue | null {
+    const outputs = this.getOutputs(sourceClassType);
+    if (outputs && (sourcePort < 0 || sourcePort >= outputs.length)) {
+      return { type: 'port_out_of_range', outputCount: outputs.length };
+    }
+
+    const input = this.getInput(targetClassType, targetInputName);
+    if (!input) {
+      return this.has(targetClassType) ? { type: 'unknown_input', classType: targetClassType } : null;
+    }
+    if (!outputs) return null;
+
+    const actualType = outputs[sourcePort].type;
+    if (!isTypeCompatible(actualType, input.type)) {
+      return { type: 'type_mismatch', expectedType: input.type, actualType };
+    }
+    return null;
+  }
+
+  /**
+   * 登録済みのclass_type一覧を取得
+   */
+  getClassTypes(): string[] {
+    return [...this.schemas.keys()];
+  }
+
+  /**
+   * 登録数を取得
+   */
+  get size(): number {
+    return this.schemas.size;
+  }
+}
+
+/**
+ * object_info の1ノード分をNodeSchemaに変換
+ */
+function parseNodeSchema(classType: string, info: ObjectInfoNode): NodeSchema {
+  const inputs: InputSchema[] = [];
+
+  for (const required of [true, false]) {
+    const specs = (required ? info.input?.required : info.input?.optional) ?? {};
+    const order = (required ? info.input_order?.required : info.input_order?.optional) ?? Object.keys(specs);
+    for (const name of order) {
+      if (specs[name] !== undefined) {
+        inputs.push(parseInputSchema(name, specs[name], required));
+      }
+    }
+  }
+
+  const outputs: OutputSchema[] = (info.output ?? []).map((type, i) => ({
+    name: info.output_name?.[i] ?? (Array.isArray(type) ? 'COMBO' : type),
+    type: Array.isArray(type) ? 'COMBO' : type,
+    isList: info.output_is_list?.[i] ?? false,
+  }));
+
+  return {
+    classType,
+    displayName: info.display_name,
+    category: info.category,
+    description: info.description,
+    outputNode: info.output_node === true,
+    inputs,
+    outputs,
+  };
+}
+
+/**
+ * object_info の入力定義をInputSchemaに変換
+ */
+function parseInputSchema(name: string, spec: ObjectInfoInputSpec, required: boolean): InputSchema {
+  if (!Array.isArray(spec) || (spec as unknown[]).length === 0) {
+    throw new Error(`Invalid input spec for "${name}"`);
+  }
+
+  const [typeOrOptions, config = {}] = spec;
+  const schema: InputSchema = {
+    name,
+    type: 'COMBO',
+    required,
+    isWidget: true,
+  };
+
+  if (Array.isArray(typeOrOptions)) {
+    // 旧形式のCOMBO: [["a", "b"], {...}]
+    schema.options = [...typeOrOptions];
+  } else if (typeOrOptions === 'COMBO') {
+    // 新形式のCOMBO: ["COMBO", { options: [...] }]
+    schema.options = Array.isArray(config.options) ? [...(config.options as (string | number)[])] : [];
+  } else {
+    schema.type = typeOrOptions;
+    schema.isWidget = WIDGET_TYPES.has(typeOrOptions);
+  }
+
+  if (config.default !== undefined) schema.default = config.default;
+  if (typeof config.min === 'number') schema.min = config.min;
+  if (typeof config.max === 'number') schema.max = config.max;
+  if (typeof config.step === 'number') schema.step = config.step;
+  if (config.control_after_generate === true) schema.controlAfterGenerate = true;
+
+  // forceInputが指定された入力は接続でのみ受け付ける
+  if (config.forceInput === true) schema.isWidget = false;
+
+  return schema;
+}
+
+/**
+ * 出力型を入力型に接続できるか判定
+ * - `*` はどの型とも接続可能
+ * - `IMAGE,MASK` のようなカンマ区切りはいずれかの型に一致すれば接続可能
+ * @param outputType ソースの出力型
+ * @param inputType ターゲットの入力型
+ */
+export function isTypeCompatible(outputType: string, inputType: string): boolean {
+  if (outputType === '*' || inputType === '*') {
+    return true;
+  }
+  const outputTypes = outputType.split(',').map(t => t.trim());
+  const inputTypes = new Set(inputType.split(',').map(t => t.trim()));
+  return outputTypes.some(t => t === '*' || inputTypes.has(t) || inputTypes.has('*'));
+}
+
+/**
+ * スキーマに合わない接続を表すエラー
+ * 出力ポートの範囲外、型の不一致、ターゲットのノード定義にない入力名のいずれか
+ */
+export class ConnectionTypeError extends Error {
+  /** ターゲット入力が期待する型（型の不一致の場合） */
+  readonly expectedType?: string;
+  /** ソース出力の実際の型（型の不一致の場合） */
+  readonly actualType?: string;
+
+  constructor(
+    readonly sourceNodeId: string,
+    readonly sourcePort: number,
+    readonly targetNodeId: string,
+    readonly targetInputName: string,
+    /** 接続チェックで見つかった問題 */
+    readonly issue: ConnectionIssue
+  ) {
+    super(
+      `Cannot connect node "${sourceNodeId}" port ${sourcePort} to node "${targetNodeId}" input "${targetInputName}": ` +
+        describeConnectionIssue(sourcePort, targetInputName, issue)
+    );
+    this.name = 'ConnectionTypeError';
+    if (issue.type === 'type_mismatch') {
+      this.expectedType = issue.expectedType;
+      this.actualType = issue.actualType;
+    }
+  }
+}
+
+/**
+ * 接続チェックの問題の説明文
+ */
+function describeConnectionIssue(sourcePort: number, targetInputName: string, issue: ConnectionIssue): string {
+  switch (issue.type) {
+    case 'port_out_of_range':
+      return `the source node has no output port ${sourcePort} (${issue.outputCount} outputs)`;
+    case 'type_mismatch':
+      return `expected ${issue.expectedType}, found ${issue.actualType}`;
+    case 'unknown_input':
+      return `${issue.classType} has no input "${targetInputName}"`;
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * ComfyUI Server Errors
+ *
+ * サーバーが返すエラー（/promptのnode_errors、execution_error）を
+ * validators.tsと同じValidationErrorの形式に変換する
+ */
+
+import type { ComfyExecutionErrorDetails } from './client';
+import { ComfyWorkflowJson } from './types';
+import { ValidationError } from './validators';
+import { compareNodeIds } from './graph';
+
+/** サーバーのエラー1件（/promptのerror・node_errors内のerrors、型は検証前） */
+interface ServerErrorItem {
+  type?: unknown;
+  message?: unknown;
+  details?: unknown;
+  extra_info?: unknown;
+}
+
+/** ノードごとにまとめたエラー */
+export interface NodeErrorGroup {
+  nodeId: string;
+  /** ワークフローに存在しないノードの場合はundefined */
+  classType?: string;
+  title?: string;
+  errors: ValidationError[];
+}
+
+/** groupErrorsByNodeの結果 */
+export interface WorkflowErrorReport {
+  /** 特定のノードに関係しないエラー */
+  global: ValidationError[];
+  /** ノードごとのエラー（ノードID順） */
+  nodes: NodeErrorGroup[];
+}
+
+/**
+ * /promptのエラーレスポンスをValidationErrorに変換
+ * node_errorsがあればノードごとのエラーを、なければトップレベルのerrorを返す
+ * @param body レスポンスの本文（JSON文字列またはパース済みのオブジェクト）
+ */
+export function parsePromptErrors(body: unknown): ValidationError[] {
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return [{ message: body as string, severity: 'error' }];
+    }
+  }
+  if (typeof body !== 'object' || body === null) return [];
+
+  const { error, node_errors } = body as { error?: unknown; node_errors?: unknown };
+  const errors: ValidationError[] = [];
+  if (isRecord(node_errors)) {
+    for (const nodeId of Object.keys(node_errors).sort(compareNodeIds)) {
+      const nodeError = node_errors[nodeId];
+      if (!isRecord(nodeError) || !Array.isArray(nodeError.errors)) continue;
+      const classType = typeof nodeError.class_type === 'string' ? nodeError.class_type : undefined;
+      for (const item of nodeError.errors) {
+        if (isRecord(item)) errors.push(toValidationError(item, nodeId, classType));
+      }
+    }
+  }
+
+  if (errors.length === 0) {
+    if (typeof error === 'string') errors.push({ message: error, severity: 'error' });
+    else if (isRecord(error)) errors.push(toValidationError(error));
+  }
+  return errors;
+}
+
+/**
+ * execution_errorをValidationErrorに変換
+ * @param error ComfyClientのexecution_errorイベント、またはメッセージのdata（snake_case）
+ */
+export function parseExecutionError(
+  error:
+    | ComfyExecutionErrorDetails
+    | { node_id?: unknown; node_type?: unknown; exception_type?: unknown; exception_message?: unknown; traceback?: unknown }
+): ValidationError {
+  const details =
+    'nodeId' in error
+      ? error
+      : {
+          nodeId:
+            typeof error.node_id === 'string' || typeof error.node_id === 'number' ? String(error.node_id) : undefined,
+          nodeType: typeof error.node_type === 'string' ? error.node_type : undefined,
+          exceptionType: typeof error.exception_type === 'string' ? error.exception_type : 'Error',
+          exceptionMessage: typeof error.exception_message === 'string' ? error.exception_message : '',
+          traceback: Array.isArray(error.traceback)
+            ? error.traceback.filter((line): line is string => typeof line === 'string')
+            : [],
+        };
+
+  const exception = `${details.exceptionType}: ${details.exceptionMessage.trim()}`;
+  const result: ValidationError = {
+    message:
+      details.nodeId === undefined
+        ? exception
+        : `Node "${details.nodeId}"${details.nodeType ? ` (${details.nodeType})` : ''} failed: ${exception}`,
+    severity: 'error',
+    code: details.exceptionType,
+  };
+  if (details.nodeId !== undefined) result.nodeId = details.nodeId;
+  if (details.traceback.length > 0) result.details = details.traceback.join('');
+  return result;
+}
+
+/**
+ * エラーをワークフローのノードごとにまとめる
+ * ノードのclass_typeとタイトルを付けるため、エラーがどのノードを指すか確認しやすい
+ * @param json ワークフローJSON
+ * @param errors ローカルのバリデーションまたはサーバーのエラー
+ */
+export function groupErrorsByNode(json: ComfyWorkflowJson, errors: ValidationError[]): WorkflowErrorReport {
+  const report: WorkflowErrorReport = { global: [], nodes: [] };
+  const groups = new Map<string, NodeErrorGroup>();
+  for (const error of errors) {
+    if (error.nodeId === undefined) {
+      report.global.push(error);
+      continue;
+    }
+
+    let group = groups.get(error.nodeId);
+    if (!group) {
+      const node = json[error.nodeId];
+      group = { nodeId: error.nodeId, classType: node?.class_type, title: node?._meta?.title, errors: [] };
+      groups.set(error.nodeId, group);
+    }
+    group.errors.push(error);
+  }
+
+  report.nodes = [...groups.values()].sort((a, b) => compareNodeIds(a.nodeId, b.nodeId));
+  return report;
+}
+
+/**
+ * サーバーのエラー1件をValidationErrorに変換
+ */
+function toValidationError(item: ServerErrorItem, nodeId?: string, classType?: string): ValidationError {
+  const inputName =
+    isRecord(item.extra_info) && typeof item.extra_info.input_name === 'string' ? item.extra_info.input_name : undefined;
+  const type = typeof item.type === 'string' && item.type !== '' ? item.type : undefined;
+  const details = typeof item.details === 'string' && item.details !== '' ? item.details : undefined;
+  let message = typeof item.message === 'string' ? item.message : 'Unknown error';
+  if (details) message += `: ${details}`;
+  if (nodeId !== undefined) {
+    const input = inputName === undefined ? '' : ` input "${inputName}"`;
+    message = `Node "${nodeId}"${classType ? ` (${classType})` : ''}${input}: ${message}`;
+  }
+
+  const result: ValidationError = { message, severity: 'error' };
+  if (nodeId !== undefined) result.nodeId = nodeId;
+  if (inputName !== undefined) result.inputName = inputName;
+  if (type) result.code = type;
+  if (details) result.details = details;
+  return result;
+}
+
+/**
+ * 値がオブジェクト（配列以外）か
+ */
+function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,172 @@
+/**
+ * ComfyUI Workflow Parameter Sweep
+ *
+ * 入力値の組み合わせごとにワークフローのバリエーションを生成する
+ */
+
+import type { ComfyWorkflow } from './ComfyWorkflow';
+import { ComfyWorkflowJson, InputValue } from './types';
+
+/** スイープの軸: "ノードID.入力名" → 値の一覧 */
+export interface SweepAxes {
+  [target: string]: Iterable<InputValue>;
+}
+
+/** スイープのオプション */
+export interface SweepOptions {
+  /**
+   * 組み合わせ方（デフォルト: 'product'）
+   * - product: すべての組み合わせ（直積）
+   * - zip: 各軸のi番目の値同士（すべての軸が同じ長さである必要がある）
+   */
+  mode?: 'product' | 'zip';
+}
+
+/** 1つのバリエーションで使ったパラメータ */
+export interface SweepManifestEntry {
+  index: number;
+  /** "ノードID.入力名" → 値 */
+  params: { [target: string]: InputValue };
+}
+
+/** スイープで生成したバリエーション */
+export interface SweepVariant extends SweepManifestEntry {
+  workflow: ComfyWorkflow;
+}
+
+/** 軸の対象と値 */
+interface SweepAxis {
+  target: string;
+  nodeId: string;
+  inputName: string;
+  values: InputValue[];
+}
+
+/**
+ * パラメータスイープ
+ * バリエーションは反復時に1つずつ生成されるため、大きなグリッドでもメモリを消費しない
+ */
+export class WorkflowSweep implements Iterable<SweepVariant> {
+  private axes: SweepAxis[];
+  private mode: 'product' | 'zip';
+
+  /**
+   * @param base 元のワークフローJSON
+   * @param axes スイープの軸
+   * @param createWorkflow JSONからバリエーションのワークフローを作成する関数
+   * @param options オプション
+   * @throws 軸の指定が不正な場合
+   */
+  constructor(
+    private base: ComfyWorkflowJson,
+    axes: SweepAxes,
+    private createWorkflow: (json: ComfyWorkflowJson) => ComfyWorkflow,
+    options: SweepOptions = {}
+  ) {
+    this.mode = options.mode ?? 'product';
+    this.axes = Object.entries(axes).map(([target, values]) => {
+      const separator = target.indexOf('.');
+      if (separator <= 0 || separator === target.length - 1) {
+        throw new Error(`Invalid sweep target "${target}": expected "nodeId.inputName"`);
+      }
+      const nodeId = target.slice(0, separator);
+      if (!base[nodeId]) {
+        throw new Error(`Sweep target "${target}" refers to non-existent node "${nodeId}"`);
+      }
+      return { target, nodeId, inputName: target.slice(separator + 1), values: [...values] };
+    });
+
+    if (this.mode === 'zip') {
+      const lengths = new Set(this.axes.map(axis => axis.values.length));
+      if (lengths.size > 1) {
+        throw new Error(`Zip sweep requires all axes to have the same length (got ${[...lengths].join(', ')})`);
+      }
+    }
+  }
+
+  /**
+   * バリエーションの数
+   */
+  get size(): number {
+    if (this.axes.length === 0) return 1;
+    if (this.mode === 'zip') return this.axes[0].values.length;
+    return this.axes.reduce((size, axis) => size * axis.values.length, 1);
+  }
+
+  *[Symbol.iterator](): Iterator<SweepVariant> {
+    for (let index = 0; index < this.size; index++) {
+      yield this.get(index);
+    }
+  }
+
+  /**
+   * index番目のバリエーションを生成
+   * @param index 0からsize-1まで
+   */
+  get(index: number): SweepVariant {
+    const params = this.params(index);
+    const json: ComfyWorkflowJson = JSON.parse(JSON.stringify(this.base));
+    for (const axis of this.axes) {
+      json[axis.nodeId].inputs[axis.inputName] = JSON.parse(JSON.stringify(params[axis.target]));
+    }
+    return { index, params, workflow: this.createWorkflow(json) };
+  }
+
+  /**
+   * 各バリエーションのパラメータ一覧（ワークフローは生成しない）
+   */
+  manifest(): SweepManifestEntry[] {
+    return Array.from({ length: this.size }, (_, index) => ({ index, params: this.params(index) }));
+  }
+
+  /**
+   * index番目のバリエーションのパラメータ
+   */
+  private params(index: number): { [target: string]: InputValue } {
+    if (!Number.isInteger(index) || index < 0 || index >= this.size) {
+      throw new Error(`Sweep index ${index} is out of range (size ${this.size})`);
+    }
+
+    const params: { [target: string]: InputValue } = {};
+    if (this.mode === 'zip') {
+      for (const axis of this.axes) {
+        params[axis.target] = axis.values[index];
+      }
+      return params;
+    }
+
+    // 最後の軸が最も速く変化する順序
+    let remainder = index;
+    for (let i = this.axes.length - 1; i >= 0; i--) {
+      const axis = this.axes[i];
+      params[axis.target] = axis.values[remainder % axis.values.length];
+      remainder = Math.floor(remainder / axis.values.length);
+    }
+    return Object.fromEntries(this.axes.map(axis => [axis.target, params[axis.target]]));
+  }
+}
+
+/**
+ * startからstop未満までstep刻みの数値の配列を作成
+ * 小数の刻みでも誤差が蓄積しないよう、各値はstepの桁数で丸める
+ * @param start 開始値
+ * @param stop 終了値（含まない）
+ * @param step 刻み（デフォルト: 1、負の値も可）
+ */
+export function range(start: number, stop: number, step = 1): number[] {
+  if (step === 0 || !Number.isFinite(step)) {
+    throw new Error('range step must be a non-zero finite number');
+  }
+  const decimals = Math.max(countDecimals(start), countDecimals(step));
+  const count = Math.max(0, Math.ceil((stop - start) / step - 1e-9));
+  return Array.from({ length: count }, (_, i) => Number((start + i * step).toFixed(decimals)));
+}
+
+/**
+ * 小数点以下の桁数
+ */
+function countDecimals(value: number): number {
+  const text = String(value);
+  if (text.includes('e-')) return Number(text.split('e-')[1]);
+  return text.includes('.') ? text.split('.')[1].length : 0;
+}
@@ -5,8 +5,31 @@
 /** ノード接続: [ノードID, ポート番号] */
 export type NodeConnection = [string, number];
 
-/** 入力値の型 */
-export type InputValue = string | number | boolean | NodeConnection | null;
+/** JSON値 */
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+/**
+ * 明示的なリテラル値: { __value__: 値 }
+ * ComfyUIのフロントエンドと同じ形式で、接続（[ノードID, ポート番号]）と区別できない配列値をラップする
+ * ComfyUIは実行時にラップを外して値を渡す
+ */
+export interface LiteralValue {
+  __value__: JsonValue;
+}
+
+/**
+ * 入力値の型
+ * 2要素の配列 [文字列, 整数] は常に接続として扱うため、同じ形のリテラル値は literal() でラップする
+ */
+export type InputValue =
+  | string
+  | number
+  | boolean
+  | null
+  | NodeConnection
+  | LiteralValue
+  | JsonValue[]
+  | { [key: string]: JsonValue };
 
 /** ノードのメタデータ */
 export interface NodeMeta {
@@ -39,6 +62,45 @@ export interface AddNodeOptions {
   meta?: NodeMeta;
 }
 
+/** ワークフロー取り込み時の接続指定 */
+export interface ImportConnection {
+  /** 取り込み先（ホスト）のソースノードID */
+  sourceNodeId: string;
+  /** ソースの出力ポート番号、またはスキーマ上の出力名 */
+  sourcePort: number | string;
+  /** 取り込むワークフロー側のターゲットノードID（取り込み前のID） */
+  targetNodeId: string;
+  targetInputName: string;
+}
+
+/** ワークフロー取り込み時のオプション */
+export interface ImportWorkflowOptions {
+  /** 新しいノードIDの接頭辞 */
+  idPrefix?: string;
+  /** ホストの出力から取り込んだノードの入力への接続 */
+  connect?: ImportConnection[];
+}
+
+/** エッジへのノード挿入時のオプション */
+export interface InsertOnEdgeOptions extends AddNodeOptions {
+  /** エッジの接続元をつなぐ新しいノードの入力名（省略時はスキーマで型の合う入力、なければエッジの入力名） */
+  inputName?: string;
+  /** エッジの接続先につなぐ新しいノードの出力ポート番号または出力名（省略時はスキーマで型の合う出力、なければ0） */
+  outputPort?: number | string;
+}
+
+/** ノード置き換え時のオプション */
+export interface ReplaceNodeOptions {
+  /** 元の入力名 → 新しい入力名（nullは削除。指定のない入力は同じ名前のまま） */
+  inputMap?: { [oldInputName: string]: string | null };
+  /** 元の出力ポート → 新しい出力ポート番号または出力名（nullは切断。指定のないポートは同じ番号のまま） */
+  outputMap?: { [oldPort: number]: number | string | null };
+  /** 追加・上書きする入力値 */
+  inputs?: { [name: string]: InputValue };
+  /** 新しいメタデータ（省略時は元のメタデータを引き継ぐ） */
+  meta?: NodeMeta;
+}
+
 /** 構造的差分の種類 */
 export type StructuralDiffType =
   | 'class_type_count_mismatch'
@@ -51,36 +113,135 @@ export type StructuralDiffType =
 export interface StructuralDiff {
   type: StructuralDiffType;
   classType?: string;
+  /** このワークフロー側のノードID */
+  nodeId?: string;
+  /** 比較対象のワークフロー側のノードID */
+  otherNodeId?: string;
   inputName?: string;
   expected?: unknown;
   actual?: unknown;
   details: string;
 }
 
+/** マージ競合の種類 */
+export type MergeConflictType =
+  | 'input_conflict'
+  | 'class_type_conflict'
+  | 'remove_modify'
+  | 'id_collision'
+  | 'dangling_connection'
+  | 'cycle';
+
+/** 3方向マージの競合情報 */
+export interface MergeConflict {
+  type: MergeConflictType;
+  nodeId: string;
+  /** id_collisionでtheirs側のノードに割り当てた新しいID */
+  newNodeId?: string;
+  inputName?: string;
+  base?: unknown;
+  ours?: unknown;
+  theirs?: unknown;
+  /** 競合に関係する接続 */
+  edges?: Edge[];
+  details: string;
+}
+
 /**
  * 型ガード: 値がNodeConnectionかどうかを判定
+ * ComfyUIと同様に、2要素の配列 [文字列, 0以上の整数] を接続とみなす
  */
 export function isNodeConnection(value: unknown): value is NodeConnection {
   return (
     Array.isArray(value) &&
     value.length === 2 &&
     typeof value[0] === 'string' &&
-    typeof value[1] === 'number'
+    Number.isInteger(value[1]) &&
+    value[1] >= 0
   );
 }
 
+/**
+ * 型ガード: 値が明示的なリテラル値（{ __value__: 値 }）かどうかを判定
+ */
+export function isLiteralValue(value: unknown): value is LiteralValue {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.keys(value).length === 1 &&
+    '__value__' in value &&
+    isJsonValue((value as LiteralValue).__value__)
+  );
+}
+
+/**
+ * 値を明示的なリテラル値としてラップ
+ * 接続と同じ形の配列（["5", 0] など）を値として渡す場合に使う
+ * @example
+ * ```typescript
+ * workflow.setInput('3', 'size', literal(['5', 0]));
+ * ```
+ */
+export function literal(value: JsonValue): LiteralValue {
+  return { __value__: value };
+}
+
+/**
+ * 入力値から実際の値を取り出す（リテラル値のラップを外す）
+ * 接続の場合はそのまま返す
+ */
+export function unwrapInputValue(value: InputValue): JsonValue {
+  return isLiteralValue(value) ? value.__value__ : value;
+}
+
+/**
+ * 比較用に入力値を正規化（literal([1, 2])と[1, 2]を同じ値にする）
+ * 接続・リテラル値と同じ形の値はラップを外すと区別できないため、ラップしたまま返す
+ */
+export function normalizeInputValue(value: InputValue): InputValue {
+  if (!isLiteralValue(value) || isNodeConnection(value.__value__) || isLiteralValue(value.__value__)) {
+    return value;
+  }
+  return value.__value__;
+}
+
+/**
+ * 型ガード: 値がJSON値かどうかを判定（有限の数値、プレーンなオブジェクトのみ）
+ */
+export function isJsonValue(value: unknown): value is JsonValue {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') {
+    return true;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value);
+  }
+  if (Array.isArray(value)) {
+    return value.every(isJsonValue);
+  }
+  if (typeof value === 'object') {
+    const prototype = Object.getPrototypeOf(value);
+    return (prototype === Object.prototype || prototype === null) && Object.values(value).every(isJsonValue);
+  }
+  return false;
+}
+
 /**
  * 型ガード: 値がComfyNodeかどうかを判定
+ * 入力値がJSON値であること、_metaがオブジェクトであることも確認する
  */
 export function isComfyNode(value: unknown): value is ComfyNode {
-  if (typeof value !== 'object' || value === null) {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
     return false;
   }
   const obj = value as Record<string, unknown>;
   return (
     typeof obj.class_type === 'string' &&
     typeof obj.inputs === 'object' &&
-    obj.inputs !== null
+    obj.inputs !== null &&
+    !Array.isArray(obj.inputs) &&
+    Object.values(obj.inputs).every(isJsonValue) &&
+    (obj._meta === undefined || (typeof obj._meta === 'object' && obj._meta !== null && !Array.isArray(obj._meta)))
   );
 }
 
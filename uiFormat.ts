@@ -0,0 +1,434 @@
+/**
+ * ComfyUI UI Workflow Format
+ *
+ * ComfyUIのエディタが保存するUI形式（LiteGraph）のJSONと
+ * API形式のワークフローJSONを相互変換する
+ */
+
+import { ComfyWorkflowJson, InputValue, JsonValue, isNodeConnection, literal, unwrapInputValue } from './types';
+import { InputSchema, NodeSchemaRegistry } from './schema';
+
+/** UI形式のリンク: [リンクID, ソースノードID, ソーススロット, ターゲットノードID, ターゲットスロット, 型] */
+export type UiLink = [number, number | string, number, number | string, number, string];
+
+/** UI形式のリンク（オブジェクト表記） */
+export interface UiLinkObject {
+  id: number;
+  origin_id: number | string;
+  origin_slot: number;
+  target_id: number | string;
+  target_slot: number;
+  type: string;
+}
+
+/** UI形式のノード入力スロット */
+export interface UiNodeInput {
+  name: string;
+  type: string;
+  link: number | null;
+  /** ウィジェットを入力スロットに変換したもの */
+  widget?: { name: string };
+  label?: string;
+}
+
+/** UI形式のノード出力スロット */
+export interface UiNodeOutput {
+  name: string;
+  type: string;
+  links: number[] | null;
+  slot_index?: number;
+  label?: string;
+}
+
+/** UI形式のノード */
+export interface UiNode {
+  id: number | string;
+  type: string;
+  pos: [number, number];
+  size: [number, number];
+  flags?: { [key: string]: unknown };
+  order?: number;
+  /** 0: 通常, 2: ミュート, 4: バイパス */
+  mode?: number;
+  title?: string;
+  inputs?: UiNodeInput[];
+  outputs?: UiNodeOutput[];
+  properties?: { [key: string]: unknown };
+  widgets_values?: unknown[] | { [key: string]: unknown };
+  color?: string;
+  bgcolor?: string;
+}
+
+/** UI形式のグループ */
+export interface UiGroup {
+  title: string;
+  bounding: [number, number, number, number];
+  color?: string;
+  font_size?: number;
+}
+
+/** UI形式のワークフローJSON */
+export interface UiWorkflowJson {
+  last_node_id: number;
+  last_link_id: number;
+  nodes: UiNode[];
+  links: (UiLink | UiLinkObject)[];
+  groups?: UiGroup[];
+  config?: { [key: string]: unknown };
+  extra?: { [key: string]: unknown };
+  version: number;
+}
+
+/** ノードのモード */
+export const UI_NODE_MODE = {
+  ALWAYS: 0,
+  NEVER: 2,
+  BYPASS: 4,
+} as const;
+
+/** API形式に含まれない仮想ノード */
+const VIRTUAL_NODE_TYPES = new Set(['Reroute', 'PrimitiveNode', 'Note', 'MarkdownNote']);
+
+/** seed等のINTウィジェットの後ろに付く「生成後の制御」ウィジェットの値 */
+const CONTROL_AFTER_GENERATE_VALUES = new Set(['fixed', 'increment', 'decrement', 'randomize']);
+
+/** レイアウト用の定数 */
+const COLUMN_WIDTH = 400;
+const NODE_WIDTH = 320;
+const ROW_HEIGHT = 26;
+const NODE_MARGIN = 40;
+
+/**
+ * 型ガード: 値がUiWorkflowJsonかどうかを判定
+ */
+export function isUiWorkflowJson(value: unknown): value is UiWorkflowJson {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  return Array.isArray(obj.nodes) && Array.isArray(obj.links);
+}
+
+/**
+ * UI形式をAPI形式に変換
+ * - Reroute はたどって元の出力に接続する
+ * - PrimitiveNode の値は接続先の入力値として展開する
+ * - ミュートされたノードは除外し、バイパスされたノードは同じ型の入力へ素通しする
+ * - widgets_values はスキーマ（なければ入力スロットのwidget情報）で入力名に対応付ける
+ * @param json UI形式のワークフローJSON
+ * @param schema ノードスキーマ（オプション）
+ */
+export function uiToApiJson(json: UiWorkflowJson, schema?: NodeSchemaRegistry): ComfyWorkflowJson {
+  if (!isUiWorkflowJson(json)) {
+    throw new Error('Invalid UI workflow JSON structure');
+  }
+
+  const nodesById = new Map<string, UiNode>();
+  for (const node of json.nodes) {
+    nodesById.set(String(node.id), node);
+  }
+
+  const linksById = new Map<number, UiLinkObject>();
+  for (const link of json.links) {
+    const normalized = Array.isArray(link)
+      ? {
+          id: link[0],
+          origin_id: link[1],
+          origin_slot: link[2],
+          target_id: link[3],
+          target_slot: link[4],
+          type: link[5],
+        }
+      : link;
+    linksById.set(normalized.id, normalized);
+  }
+
+  /**
+   * リンクの実際の供給元を解決
+   */
+  const resolveSource = (
+    linkId: number | null | undefined,
+    visited: Set<number> = new Set()
+  ): { connection: [string, number] } | { value: InputValue } | null => {
+    if (linkId === null || linkId === undefined || visited.has(linkId)) return null;
+    visited.add(linkId);
+
+    const link = linksById.get(linkId);
+    if (!link) return null;
+    const origin = nodesById.get(String(link.origin_id));
+    if (!origin) return null;
+
+    if (origin.type === 'Reroute') {
+      return resolveSource(origin.inputs?.[0]?.link, visited);
+    }
+    if (origin.type === 'PrimitiveNode') {
+      const values = origin.widgets_values;
+      return Array.isArray(values) ? { value: toApiValue(values[0]) } : null;
+    }
+    if (origin.mode === UI_NODE_MODE.NEVER) {
+      return null;
+    }
+    if (origin.mode === UI_NODE_MODE.BYPASS) {
+      // 同じ型の入力へ素通し（同じスロット番号の入力を優先）
+      const inputs = origin.inputs ?? [];
+      const matches = (input: UiNodeInput) =>
+        input.link !== null && (input.type === link.type || input.type === '*' || link.type === '*');
+      const passThrough = inputs[link.origin_slot] && matches(inputs[link.origin_slot])
+        ? inputs[link.origin_slot]
+        : inputs.find(matches);
+      return passThrough ? resolveSource(passThrough.link, visited) : null;
+    }
+    return { connection: [String(origin.id), link.origin_slot] };
+  };
+
+  const result: ComfyWorkflowJson = {};
+
+  for (const node of json.nodes) {
+    if (VIRTUAL_NODE_TYPES.has(node.type)) continue;
+    if (node.mode === UI_NODE_MODE.NEVER || node.mode === UI_NODE_MODE.BYPASS) continue;
+
+    const nodeId = String(node.id);
+    const inputs: { [key: string]: InputValue } = mapWidgetValues(node, schema);
+
+    for (const slot of node.inputs ?? []) {
+      if (slot.link === null || slot.link === undefined) continue;
+      const source = resolveSource(slot.link);
+      if (!source) continue;
+      const name = slot.widget?.name ?? slot.name;
+      inputs[name] = 'connection' in source ? source.connection : source.value;
+    }
+
+    result[nodeId] = {
+      inputs,
+      class_type: node.type,
+      _meta: { title: node.title ?? schema?.get(node.type)?.displayName ?? node.type },
+    };
+  }
+
+  return result;
+}
+
+/**
+ * widgets_values を入力名に対応付ける
+ */
+function mapWidgetValues(node: UiNode, schema?: NodeSchemaRegistry): { [key: string]: InputValue } {
+  const values = node.widgets_values;
+  if (values === undefined) return {};
+
+  // 一部のカスタムノードは入力名をキーにしたオブジェクトで保存する
+  if (!Array.isArray(values)) {
+    return Object.fromEntries(Object.entries(values).map(([name, value]) => [name, toApiValue(value)]));
+  }
+  if (values.length === 0) return {};
+
+  const nodeSchema = schema?.get(node.type);
+  // control: 後ろに「生成後の制御」値があるか（スキーマがない場合はundefinedで、値から推定する）
+  const widgets: { name: string; type: string; control?: boolean }[] = nodeSchema
+    ? nodeSchema.inputs
+        .filter(input => input.isWidget)
+        .map(input => ({ name: input.name, type: input.type, control: hasControlAfterGenerate(input) }))
+    : (node.inputs ?? []).filter(input => input.widget).map(input => ({ name: input.widget!.name, type: input.type }));
+
+  if (widgets.length === 0) {
+    throw new Error(`Cannot map widgets_values of node "${node.id}" (${node.type}) without a schema`);
+  }
+
+  const inputs: { [key: string]: InputValue } = {};
+  let index = 0;
+  for (const widget of widgets) {
+    if (index >= values.length) break;
+    inputs[widget.name] = toApiValue(values[index++]);
+
+    // 「生成後の制御」値は入力ではないので読み飛ばす
+    const control =
+      widget.control ??
+      (widget.type === 'INT' &&
+        typeof values[index] === 'string' &&
+        CONTROL_AFTER_GENERATE_VALUES.has(values[index] as string));
+    if (control) {
+      index++;
+    }
+  }
+  return inputs;
+}
+
+/**
+ * API形式をUI形式に変換
+ * ノードは接続の深さごとの列に並べる
+ * @param json API形式のワークフローJSON
+ * @param schema ノードスキーマ（オプション）
+ */
+export function apiToUiJson(json: ComfyWorkflowJson, schema?: NodeSchemaRegistry): UiWorkflowJson {
+  // UI形式のノードIDは数値なので、数値でないIDには新しい番号を割り当てる
+  const numericIds = new Map<string, number>();
+  let lastNodeId = Math.max(0, ...Object.keys(json).filter(id => /^\d+$/.test(id)).map(Number));
+  for (const id of Object.keys(json)) {
+    numericIds.set(id, /^\d+$/.test(id) ? Number(id) : ++lastNodeId);
+  }
+
+  const depths = computeDepths(json);
+  const nodes: UiNode[] = [];
+  const nodesByApiId = new Map<string, UiNode>();
+
+  for (const [id, node] of Object.entries(json)) {
+    const nodeSchema = schema?.get(node.class_type);
+    const uiInputs: UiNodeInput[] = [];
+    const widgetsValues: unknown[] = [];
+
+    if (nodeSchema) {
+      for (const input of nodeSchema.inputs) {
+        const value = node.inputs[input.name];
+        if (!input.isWidget) {
+          uiInputs.push({ name: input.name, type: input.type, link: null });
+          continue;
+        }
+        uiInputs.push({ name: input.name, type: input.type, link: null, widget: { name: input.name } });
+        widgetsValues.push(value === undefined || isNodeConnection(value) ? input.default ?? null : unwrapInputValue(value));
+        if (hasControlAfterGenerate(input)) {
+          widgetsValues.push('fixed');
+        }
+      }
+    }
+
+    // スキーマにない入力
+    for (const [name, value] of Object.entries(node.inputs)) {
+      if (uiInputs.some(input => input.name === name)) continue;
+      if (isNodeConnection(value)) {
+        uiInputs.push({ name, type: '*', link: null });
+      } else {
+        uiInputs.push({ name, type: guessWidgetType(value), link: null, widget: { name } });
+        widgetsValues.push(unwrapInputValue(value));
+      }
+    }
+
+    const outputs: UiNodeOutput[] = (nodeSchema?.outputs ?? []).map((output, i) => ({
+      name: output.name,
+      type: output.type,
+      links: [],
+      slot_index: i,
+    }));
+
+    const uiNode: UiNode = {
+      id: numericIds.get(id)!,
+      type: node.class_type,
+      pos: [0, 0],
+      size: [NODE_WIDTH, ROW_HEIGHT * (uiInputs.length + Math.max(outputs.length, 1) + 1)],
+      flags: {},
+      order: 0,
+      mode: UI_NODE_MODE.ALWAYS,
+      inputs: uiInputs,
+      outputs,
+      properties: { 'Node name for S&R': node.class_type },
+      widgets_values: widgetsValues,
+    };
+    if (node._meta?.title !== undefined) {
+      uiNode.title = node._meta.title;
+    }
+
+    nodes.push(uiNode);
+    nodesByApiId.set(id, uiNode);
+  }
+
+  // リンクを作成
+  const links: UiLink[] = [];
+  let lastLinkId = 0;
+  for (const [targetId, node] of Object.entries(json)) {
+    for (const [inputName, value] of Object.entries(node.inputs)) {
+      if (!isNodeConnection(value)) continue;
+      const [sourceId, sourcePort] = value;
+      const source = nodesByApiId.get(sourceId);
+      const target = nodesByApiId.get(targetId)!;
+      if (!source) continue;
+
+      // スキーマにない出力ポートは補完する
+      const outputs = source.outputs!;
+      while (outputs.length <= sourcePort) {
+        outputs.push({ name: '*', type: '*', links: [], slot_index: outputs.length });
+      }
+
+      const targetSlot = target.inputs!.findIndex(input => input.name === inputName);
+      const type = outputs[sourcePort].type;
+      const linkId = ++lastLinkId;
+      links.push([linkId, source.id, sourcePort, target.id, targetSlot, type]);
+      outputs[sourcePort].links!.push(linkId);
+      target.inputs![targetSlot].link = linkId;
+    }
+  }
+
+  // 深さごとの列に配置
+  const columnHeights = new Map<number, number>();
+  const sorted = [...nodesByApiId.entries()].sort(([a], [b]) => depths.get(a)! - depths.get(b)!);
+  sorted.forEach(([id, uiNode], order) => {
+    const depth = depths.get(id)!;
+    const y = columnHeights.get(depth) ?? NODE_MARGIN;
+    uiNode.pos = [NODE_MARGIN + depth * COLUMN_WIDTH, y];
+    uiNode.order = order;
+    columnHeights.set(depth, y + uiNode.size[1] + NODE_MARGIN);
+  });
+
+  return {
+    last_node_id: lastNodeId,
+    last_link_id: lastLinkId,
+    nodes,
+    links,
+    groups: [],
+    config: {},
+    extra: {},
+    version: 0.4,
+  };
+}
+
+/**
+ * 各ノードの深さ（入力側からの最長経路長）を計算
+ * 循環がある場合もノード数回の反復で打ち切る
+ */
+function computeDepths(json: ComfyWorkflowJson): Map<string, number> {
+  const depths = new Map<string, number>(Object.keys(json).map(id => [id, 0]));
+  const ids = Object.keys(json);
+
+  for (let i = 0; i < ids.length; i++) {
+    let changed = false;
+    for (const id of ids) {
+      for (const value of Object.values(json[id].inputs)) {
+        if (!isNodeConnection(value) || !depths.has(value[0])) continue;
+        const depth = depths.get(value[0])! + 1;
+        if (depth > depths.get(id)! && depth < ids.length) {
+          depths.set(id, depth);
+          changed = true;
+        }
+      }
+    }
+    if (!changed) break;
+  }
+  return depths;
+}
+
+/**
+ * ウィジェットの後ろに「生成後の制御」ウィジェットがあるか
+ * エディタと同様に、control_after_generate指定のほか seed・noise_seed という名前のINT入力にも付く
+ */
+function hasControlAfterGenerate(input: InputSchema): boolean {
+  return input.type === 'INT' && (input.controlAfterGenerate === true || input.name === 'seed' || input.name === 'noise_seed');
+}
+
+/**
+ * ウィジェットの値をAPI形式の入力値に変換
+ * ComfyUIのフロントエンドと同様に、配列は接続と区別するためリテラル値としてラップする
+ */
+function toApiValue(value: unknown): InputValue {
+  return Array.isArray(value) ? literal(value as JsonValue[]) : (value as InputValue);
+}
+
+/**
+ * 値からウィジェットの型を推定
+ */
+function guessWidgetType(value: InputValue): string {
+  switch (typeof value) {
+    case 'number':
+      return Number.isInteger(value) ? 'INT' : 'FLOAT';
+    case 'boolean':
+      return 'BOOLEAN';
+    default:
+      return 'STRING';
+  }
+}
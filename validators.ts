@@ -1,4 +1,6 @@
-import { ComfyWorkflowJson, isComfyWorkflowJson, isNodeConnection } from './types';
+import { ComfyWorkflowJson, InputValue, isComfyWorkflowJson, isJsonValue, isNodeConnection, unwrapInputValue } from './types';
+import { InputSchema, NodeSchemaRegistry } from './schema';
+import { findCycles, findDeadNodes, findOutputNodes, hasNode } from './graph';
 
 /**
  * バリデーションエラー
@@ -8,6 +10,10 @@ export interface ValidationError {
   inputName?: string;
   message: string;
   severity: 'error' | 'warning';
+  /** エラーの種類（サーバーのエラーの場合は 'value_not_in_list' などのtype） */
+  code?: string;
+  /** 詳細（サーバーのエラーのdetailsなど） */
+  details?: string;
 }
 
 /**
@@ -19,6 +25,24 @@ export interface ValidationResult {
   warnings: ValidationError[];
 }
 
+/**
+ * バリデーション失敗を表すエラー
+ */
+export class WorkflowValidationError extends Error {
+  constructor(readonly result: ValidationResult) {
+    super(`Workflow validation failed: ${result.errors.map(e => e.message).join('; ')}`);
+    this.name = 'WorkflowValidationError';
+  }
+}
+
+/**
+ * validateWorkflowのオプション
+ */
+export interface ValidateWorkflowOptions {
+  /** 指定するとノード定義に対する入力チェックも行う */
+  schema?: NodeSchemaRegistry;
+}
+
 /**
  * ワークフローの構造をバリデート
  */
@@ -31,6 +55,22 @@ export function validateWorkflowStructure(json: unknown): ValidationResult {
       message: 'Invalid workflow structure: not a valid ComfyWorkflowJson',
       severity: 'error',
     });
+
+    // JSON値でない入力値（undefined、NaN、関数など）の位置
+    for (const [nodeId, node] of Object.entries(typeof json === 'object' && json !== null ? json : {})) {
+      const inputs: unknown = (node as { inputs?: unknown } | null)?.inputs;
+      if (typeof inputs !== 'object' || inputs === null) continue;
+      for (const [inputName, value] of Object.entries(inputs)) {
+        if (!isJsonValue(value)) {
+          errors.push({
+            nodeId,
+            inputName,
+            message: `Node "${nodeId}" input "${inputName}" is not a JSON value`,
+            severity: 'error',
+          });
+        }
+      }
+    }
     return { valid: false, errors, warnings };
   }
 
@@ -41,51 +81,301 @@ export function validateWorkflowStructure(json: unknown): ValidationResult {
  * ワークフローの接続をバリデート
  * - 存在しないノードへの参照がないか
  * - 孤立したノードがないか（警告）
+ * - 出力ノードに寄与しないノードがないか（警告）
+ * - 循環がないか
+ * - schemaを指定した場合、出力ポートの範囲と接続の型が合っているか
+ */
+export function validateConnections(json: ComfyWorkflowJson, schema?: NodeSchemaRegistry): ValidationResult {
+  return toValidationResult([
+    ...checkMissingNodes(json),
+    ...(schema ? checkConnectionTypes(json, schema) : []),
+    ...checkCycles(json),
+    ...checkIsolatedNodes(json),
+    ...checkDeadNodes(json, schema),
+  ]);
+}
+
+/**
+ * ノード定義（object_info）に対してワークフローをバリデート
+ * - 未知のclass_type
+ * - 必須入力の欠落
+ * - 未知の入力名（警告）
+ * - INT/FLOATの範囲外の値、stepに合わない値（警告）
+ * - COMBOの選択肢にない値
+ */
+export function validateNodeSchemas(
+  json: ComfyWorkflowJson,
+  schema: NodeSchemaRegistry
+): ValidationResult {
+  return toValidationResult([
+    ...checkUnknownNodeTypes(json, schema),
+    ...checkMissingInputs(json, schema),
+    ...checkUnknownInputs(json, schema),
+    ...checkInputValues(json, schema),
+  ]);
+}
+
+// ============================================
+// 個別のチェック（Linterの組み込みルールでも使う）
+// ============================================
+
+/**
+ * 存在しないノードへの参照
+ */
+export function checkMissingNodes(json: ComfyWorkflowJson): ValidationError[] {
+  const errors: ValidationError[] = [];
+  for (const [nodeId, node] of Object.entries(json)) {
+    for (const [inputName, value] of Object.entries(node.inputs)) {
+      if (isNodeConnection(value) && !hasNode(json, value[0])) {
+        errors.push({
+          nodeId,
+          inputName,
+          message: `Node "${nodeId}" references non-existent node "${value[0]}" in input "${inputName}"`,
+          severity: 'error',
+        });
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * 範囲外の出力ポート・型の合わない接続
  */
-export function validateConnections(json: ComfyWorkflowJson): ValidationResult {
+export function checkConnectionTypes(json: ComfyWorkflowJson, schema: NodeSchemaRegistry): ValidationError[] {
   const errors: ValidationError[] = [];
+  for (const [nodeId, node] of Object.entries(json)) {
+    for (const [inputName, value] of Object.entries(node.inputs)) {
+      if (!isNodeConnection(value) || !hasNode(json, value[0])) continue;
+
+      const [sourceNodeId, sourcePort] = value;
+      const sourceType = json[sourceNodeId].class_type;
+      const issue = schema.checkConnection(sourceType, sourcePort, node.class_type, inputName);
+      if (issue?.type === 'port_out_of_range') {
+        errors.push({
+          nodeId,
+          inputName,
+          message: `Node "${nodeId}" references output port ${sourcePort} of node "${sourceNodeId}" (${sourceType}), which has only ${issue.outputCount} outputs`,
+          severity: 'error',
+        });
+      } else if (issue?.type === 'type_mismatch') {
+        errors.push({
+          nodeId,
+          inputName,
+          message: `Node "${nodeId}" input "${inputName}" expects ${issue.expectedType}, but node "${sourceNodeId}" port ${sourcePort} outputs ${issue.actualType}`,
+          severity: 'error',
+        });
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * 循環
+ */
+export function checkCycles(json: ComfyWorkflowJson): ValidationError[] {
+  return findCycles(json).map(cycle => ({
+    nodeId: cycle[0],
+    message: `Nodes form a cycle: ${[...cycle, cycle[0]].map(id => `"${id}"`).join(' -> ')}`,
+    severity: 'error',
+  }));
+}
+
+/**
+ * 孤立したノード（警告）
+ */
+export function checkIsolatedNodes(json: ComfyWorkflowJson): ValidationError[] {
+  const connected = findConnectedNodeIds(json);
+  return Object.keys(json)
+    .filter(nodeId => !connected.has(nodeId))
+    .map(nodeId => ({
+      nodeId,
+      message: `Node "${nodeId}" is isolated (no incoming or outgoing connections)`,
+      severity: 'warning',
+    }));
+}
+
+/**
+ * 出力ノードに寄与しないノード（警告、孤立ノードと出力ノードがない場合は除く）
+ */
+export function checkDeadNodes(json: ComfyWorkflowJson, schema?: NodeSchemaRegistry): ValidationError[] {
+  if (findOutputNodes(json, { schema }).length === 0) {
+    return [];
+  }
+  const connected = findConnectedNodeIds(json);
+  return findDeadNodes(json, { schema })
+    .filter(nodeId => connected.has(nodeId))
+    .map(nodeId => ({
+      nodeId,
+      message: `Node "${nodeId}" does not contribute to any output node`,
+      severity: 'warning',
+    }));
+}
+
+/**
+ * 未知のclass_type
+ */
+export function checkUnknownNodeTypes(json: ComfyWorkflowJson, schema: NodeSchemaRegistry): ValidationError[] {
+  return Object.entries(json)
+    .filter(([, node]) => !schema.get(node.class_type))
+    .map(([nodeId, node]) => ({
+      nodeId,
+      message: `Node "${nodeId}" has unknown class_type "${node.class_type}"`,
+      severity: 'error',
+    }));
+}
+
+/**
+ * 必須入力の欠落
+ */
+export function checkMissingInputs(json: ComfyWorkflowJson, schema: NodeSchemaRegistry): ValidationError[] {
+  const errors: ValidationError[] = [];
+  for (const [nodeId, node] of Object.entries(json)) {
+    for (const input of schema.get(node.class_type)?.inputs ?? []) {
+      if (input.required && node.inputs[input.name] === undefined) {
+        errors.push({
+          nodeId,
+          inputName: input.name,
+          message: `Node "${nodeId}" (${node.class_type}) is missing required input "${input.name}"`,
+          severity: 'error',
+        });
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * 未知の入力名（警告）
+ */
+export function checkUnknownInputs(json: ComfyWorkflowJson, schema: NodeSchemaRegistry): ValidationError[] {
   const warnings: ValidationError[] = [];
-  const nodeIds = new Set(Object.keys(json));
-  const referencedNodeIds = new Set<string>();
+  for (const [nodeId, node] of Object.entries(json)) {
+    const nodeSchema = schema.get(node.class_type);
+    if (!nodeSchema) continue;
+    for (const inputName of Object.keys(node.inputs)) {
+      if (!nodeSchema.inputs.some(input => input.name === inputName)) {
+        warnings.push({
+          nodeId,
+          inputName,
+          message: `Node "${nodeId}" (${node.class_type}) has unknown input "${inputName}"`,
+          severity: 'warning',
+        });
+      }
+    }
+  }
+  return warnings;
+}
 
-  // 各ノードの接続をチェック
+/**
+ * 入力スキーマに合わない値（stepに合わない値は警告）
+ * 接続の型チェックはcheckConnectionTypesで行う
+ */
+export function checkInputValues(json: ComfyWorkflowJson, schema: NodeSchemaRegistry): ValidationError[] {
+  const issues: ValidationError[] = [];
   for (const [nodeId, node] of Object.entries(json)) {
+    const nodeSchema = schema.get(node.class_type);
+    if (!nodeSchema) continue;
     for (const [inputName, value] of Object.entries(node.inputs)) {
-      if (isNodeConnection(value)) {
-        const [sourceNodeId] = value;
-        referencedNodeIds.add(sourceNodeId);
-        referencedNodeIds.add(nodeId);
+      const input = nodeSchema.inputs.find(i => i.name === inputName);
+      if (!input || isNodeConnection(value)) continue;
 
-        if (!nodeIds.has(sourceNodeId)) {
-          errors.push({
-            nodeId,
-            inputName,
-            message: `Node "${nodeId}" references non-existent node "${sourceNodeId}" in input "${inputName}"`,
-            severity: 'error',
-          });
-        }
+      for (const issue of checkInputValue(input, value)) {
+        issues.push({
+          nodeId,
+          inputName,
+          message: `Node "${nodeId}" (${node.class_type}) input "${inputName}": ${issue.message}`,
+          severity: issue.severity,
+        });
       }
     }
   }
+  return issues;
+}
 
-  // 孤立したノードを警告
-  for (const nodeId of nodeIds) {
-    if (!referencedNodeIds.has(nodeId)) {
-      warnings.push({
-        nodeId,
-        message: `Node "${nodeId}" is isolated (no incoming or outgoing connections)`,
-        severity: 'warning',
-      });
+/**
+ * 接続の接続元・接続先になっているノード（存在しないノードへの参照も含む）
+ */
+function findConnectedNodeIds(json: ComfyWorkflowJson): Set<string> {
+  const connected = new Set<string>();
+  for (const [nodeId, node] of Object.entries(json)) {
+    for (const value of Object.values(node.inputs)) {
+      if (isNodeConnection(value)) {
+        connected.add(value[0]);
+        connected.add(nodeId);
+      }
     }
   }
+  return connected;
+}
 
-  return { valid: errors.length === 0, errors, warnings };
+/**
+ * チェックの結果を重大度で分ける
+ */
+function toValidationResult(issues: ValidationError[]): ValidationResult {
+  const errors = issues.filter(issue => issue.severity === 'error');
+  return { valid: errors.length === 0, errors, warnings: issues.filter(issue => issue.severity === 'warning') };
+}
+
+/**
+ * 入力値を入力スキーマに照らしてチェック
+ * リテラル値（{ __value__: 値 }）はラップを外した値をチェックする
+ */
+function checkInputValue(
+  input: InputSchema,
+  inputValue: InputValue
+): { message: string; severity: 'error' | 'warning' }[] {
+  const value = unwrapInputValue(inputValue);
+  switch (input.type) {
+    case 'INT':
+    case 'FLOAT': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [{ message: `expected ${input.type}, got ${JSON.stringify(value)}`, severity: 'error' }];
+      }
+      if (input.type === 'INT' && !Number.isInteger(value)) {
+        return [{ message: `expected INT, got non-integer ${value}`, severity: 'error' }];
+      }
+      if (input.min !== undefined && value < input.min) {
+        return [{ message: `value ${value} is smaller than min ${input.min}`, severity: 'error' }];
+      }
+      if (input.max !== undefined && value > input.max) {
+        return [{ message: `value ${value} is bigger than max ${input.max}`, severity: 'error' }];
+      }
+      if (input.step !== undefined && input.step > 0) {
+        const offset = (value - (input.min ?? 0)) / input.step;
+        if (Math.abs(offset - Math.round(offset)) > 1e-6) {
+          return [{ message: `value ${value} is not a multiple of step ${input.step}`, severity: 'warning' }];
+        }
+      }
+      return [];
+    }
+    case 'STRING':
+      return typeof value === 'string'
+        ? []
+        : [{ message: `expected STRING, got ${JSON.stringify(value)}`, severity: 'error' }];
+    case 'BOOLEAN':
+      return typeof value === 'boolean'
+        ? []
+        : [{ message: `expected BOOLEAN, got ${JSON.stringify(value)}`, severity: 'error' }];
+    case 'COMBO':
+      return input.options && !input.options.includes(value as string | number)
+        ? [{ message: `value ${JSON.stringify(value)} is not in the list of allowed values`, severity: 'error' }]
+        : [];
+    case '*':
+      return [];
+    default:
+      // MODEL, CLIP などは接続でのみ受け付ける
+      return [{ message: `expected a connection of type ${input.type}, got ${JSON.stringify(value)}`, severity: 'error' }];
+  }
 }
 
 /**
  * ワークフロー全体をバリデート
+ * @param json ワークフローJSON
+ * @param options schemaを指定するとノード定義に対するチェックも行う
  */
-export function validateWorkflow(json: unknown): ValidationResult {
+export function validateWorkflow(json: unknown, options: ValidateWorkflowOptions = {}): ValidationResult {
   // 構造チェック
   const structureResult = validateWorkflowStructure(json);
   if (!structureResult.valid) {
@@ -93,11 +383,16 @@ export function validateWorkflow(json: unknown): ValidationResult {
   }
 
   // 接続チェック
-  const connectionResult = validateConnections(json as ComfyWorkflowJson);
+  const connectionResult = validateConnections(json as ComfyWorkflowJson, options.schema);
+
+  // スキーマチェック
+  const schemaResult = options.schema
+    ? validateNodeSchemas(json as ComfyWorkflowJson, options.schema)
+    : { valid: true, errors: [], warnings: [] };
 
   return {
-    valid: connectionResult.valid,
-    errors: [...structureResult.errors, ...connectionResult.errors],
-    warnings: [...structureResult.warnings, ...connectionResult.warnings],
+    valid: connectionResult.valid && schemaResult.valid,
+    errors: [...structureResult.errors, ...connectionResult.errors, ...schemaResult.errors],
+    warnings: [...structureResult.warnings, ...connectionResult.warnings, ...schemaResult.warnings],
   };
 }
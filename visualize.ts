@@ -0,0 +1,181 @@
+/**
+ * ComfyUI Workflow Visualization
+ *
+ * ワークフローをMermaid・Graphviz DOTのグラフ記述として出力する
+ */
+
+import { ComfyWorkflowJson, Edge, isNodeConnection } from './types';
+import { NodeSchemaRegistry } from './schema';
+import { compareNodeIds } from './graph';
+
+/** グラフ出力のオプション */
+export interface GraphExportOptions {
+  /** グラフの向き（デフォルト: 'LR'） */
+  direction?: 'LR' | 'RL' | 'TB' | 'BT';
+  /** trueならclass_typeごとにノードをまとめる */
+  clusterByType?: boolean;
+  /** 強調表示するノードID（undefinedは無視する） */
+  highlight?: Iterable<string | undefined>;
+  /** 指定するとエッジのラベルに出力名を使う */
+  schema?: NodeSchemaRegistry;
+}
+
+/** 出力用に整理したグラフ */
+interface GraphModel {
+  nodes: { nodeId: string; key: string; label: string[]; classType: string; highlighted: boolean }[];
+  edges: { source: string; target: string; label: string }[];
+  clusters: { classType: string; keys: string[] }[];
+}
+
+/**
+ * Mermaidのフローチャートとして出力
+ * @param json ワークフローJSON
+ * @param options オプション
+ */
+export function toMermaid(json: ComfyWorkflowJson, options: GraphExportOptions = {}): string {
+  const graph = buildGraphModel(json, options);
+  const lines = [`flowchart ${options.direction ?? 'LR'}`];
+  const nodeLine = (node: GraphModel['nodes'][number]) =>
+    `${node.key}["${node.label.map(escapeMermaid).join('<br/>')}"]`;
+
+  if (options.clusterByType) {
+    graph.clusters.forEach((cluster, i) => {
+      lines.push(`  subgraph cluster_${i} ["${escapeMermaid(cluster.classType)}"]`);
+      for (const node of graph.nodes.filter(n => cluster.keys.includes(n.key))) {
+        lines.push(`    ${nodeLine(node)}`);
+      }
+      lines.push('  end');
+    });
+  } else {
+    for (const node of graph.nodes) {
+      lines.push(`  ${nodeLine(node)}`);
+    }
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${edge.source} -->|"${escapeMermaid(edge.label)}"| ${edge.target}`);
+  }
+
+  const highlighted = graph.nodes.filter(node => node.highlighted).map(node => node.key);
+  if (highlighted.length > 0) {
+    lines.push('  classDef highlight fill:#ffdddd,stroke:#dd0000,stroke-width:2px');
+    lines.push(`  class ${highlighted.join(',')} highlight`);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Graphviz DOTとして出力
+ * @param json ワークフローJSON
+ * @param options オプション
+ */
+export function toDot(json: ComfyWorkflowJson, options: GraphExportOptions = {}): string {
+  const graph = buildGraphModel(json, options);
+  const lines = [
+    'digraph workflow {',
+    `  rankdir=${options.direction ?? 'LR'};`,
+    '  node [shape=box, style="rounded"];',
+  ];
+  const nodeLine = (node: GraphModel['nodes'][number]) => {
+    const attributes = [`label="${node.label.map(escapeDot).join('\\n')}"`];
+    if (node.highlighted) {
+      attributes.push('style="rounded,filled"', 'fillcolor="#ffdddd"', 'color="#dd0000"', 'penwidth=2');
+    }
+    return `${node.key} [${attributes.join(', ')}];`;
+  };
+
+  if (options.clusterByType) {
+    graph.clusters.forEach((cluster, i) => {
+      lines.push(`  subgraph cluster_${i} {`);
+      lines.push(`    label="${escapeDot(cluster.classType)}";`);
+      for (const node of graph.nodes.filter(n => cluster.keys.includes(n.key))) {
+        lines.push(`    ${nodeLine(node)}`);
+      }
+      lines.push('  }');
+    });
+  } else {
+    for (const node of graph.nodes) {
+      lines.push(`  ${nodeLine(node)}`);
+    }
+  }
+
+  for (const edge of graph.edges) {
+    lines.push(`  ${edge.source} -> ${edge.target} [label="${escapeDot(edge.label)}"];`);
+  }
+
+  lines.push('}');
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * ノード・エッジ・クラスタを整理（存在しないノードへの接続は除外する）
+ */
+function buildGraphModel(json: ComfyWorkflowJson, options: GraphExportOptions): GraphModel {
+  const highlight = new Set<string>();
+  for (const nodeId of options.highlight ?? []) {
+    if (nodeId !== undefined) highlight.add(nodeId);
+  }
+
+  // ノードIDは記号を含む場合があるため、出力上は連番のキーを使う
+  const nodeIds = Object.keys(json).sort(compareNodeIds);
+  const keys = new Map(nodeIds.map((nodeId, i) => [nodeId, `n${i}`]));
+
+  const nodes = nodeIds.map(nodeId => {
+    const node = json[nodeId];
+    return {
+      nodeId,
+      key: keys.get(nodeId)!,
+      label: [node._meta?.title ?? node.class_type, `#${nodeId}`],
+      classType: node.class_type,
+      highlighted: highlight.has(nodeId),
+    };
+  });
+
+  const edges: GraphModel['edges'] = [];
+  for (const nodeId of nodeIds) {
+    for (const [inputName, value] of Object.entries(json[nodeId].inputs)) {
+      if (!isNodeConnection(value) || !keys.has(value[0])) continue;
+      const edge: Edge = { sourceNodeId: value[0], sourcePort: value[1], targetNodeId: nodeId, targetInputName: inputName };
+      edges.push({
+        source: keys.get(edge.sourceNodeId)!,
+        target: keys.get(edge.targetNodeId)!,
+        label: `${portLabel(json, edge, options.schema)} → ${edge.targetInputName}`,
+      });
+    }
+  }
+
+  const clusters: GraphModel['clusters'] = [];
+  for (const node of nodes) {
+    let cluster = clusters.find(c => c.classType === node.classType);
+    if (!cluster) {
+      cluster = { classType: node.classType, keys: [] };
+      clusters.push(cluster);
+    }
+    cluster.keys.push(node.key);
+  }
+
+  return { nodes, edges, clusters };
+}
+
+/**
+ * エッジの出力側のラベル（スキーマがあれば出力名、なければポート番号）
+ */
+function portLabel(json: ComfyWorkflowJson, edge: Edge, schema?: NodeSchemaRegistry): string {
+  const output = schema?.getOutputs(json[edge.sourceNodeId].class_type)?.[edge.sourcePort];
+  return output ? output.name : String(edge.sourcePort);
+}
+
+/**
+ * Mermaidのラベル用にエスケープ
+ */
+function escapeMermaid(text: string): string {
+  return text.replace(/"/g, '#quot;').replace(/\r?\n/g, '<br/>');
+}
+
+/**
+ * DOTのラベル用にエスケープ
+ */
+function escapeDot(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n');
+}